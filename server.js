@@ -1,6 +1,43 @@
 import express from 'express';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import {
+  parseAnalyzeRequest,
+  buildAnalysisRequest,
+  applyPersonaRulesToAnalysis,
+  parseModelContent
+} from './server/prompt.js';
+import { resolveAnalysis } from './server/analysis.js';
+import { frameHash } from './server/frameHash.js';
+import { createResponseCache, cacheOptionsFromEnv, replayAnalysis } from './server/responseCache.js';
+import { publicPersonas } from './server/personas.js';
+import { createCommentaryExtractor, sendEvent } from './server/streaming.js';
+import { createRoomRegistry } from './server/rooms.js';
+import { parseScoreRequest, buildScorecardRequest, parseClosingLine, parseScorecard } from './server/scorecard.js';
+import { createProvider, ProviderError } from './server/providers.js';
+import { createTranscriber, parseTranscribeRequest } from './server/transcription.js';
+import { loadLineup, lineupPrimer } from './server/lineup.js';
+import { createModerator, loadModerationRules } from './server/moderation.js';
+import {
+  createReelStore,
+  parseReelRequest,
+  publishReel,
+  canDeleteReel,
+  publicReel,
+  reelPreview,
+  renderReelPage,
+  isReelId
+} from './server/reels.js';
+import { renderPreviewCard } from './server/previewImage.js';
+import { createMetrics, instrumentProvider, pricingFromEnv } from './server/metrics.js';
+import { adminPasswordFromEnv, requireAdmin, parseControlsRequest, renderAdminPage } from './server/admin.js';
+import {
+  createBudgets,
+  createBudgetStore,
+  budgetLimitsFromEnv,
+  sessionSecretFromEnv,
+  usageTokens
+} from './server/budgets.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -8,89 +45,568 @@ const __dirname = dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-app.use(express.json({ limit: '10mb' }));
-
-// --- Rate limiting (in-memory, per IP) ---
-const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
-const RATE_LIMIT_MAX = 400; // max calls per IP per hour (~20 min at 3s intervals = 400)
-const rateLimitMap = new Map(); // ip -> { count, resetTime }
-
-// Clean up stale entries every 10 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [ip, entry] of rateLimitMap) {
-    if (now > entry.resetTime) rateLimitMap.delete(ip);
-  }
-}, 10 * 60 * 1000);
-
-function checkRateLimit(ip) {
-  const now = Date.now();
-  let entry = rateLimitMap.get(ip);
-  if (!entry || now > entry.resetTime) {
-    entry = { count: 0, resetTime: now + RATE_LIMIT_WINDOW_MS };
-    rateLimitMap.set(ip, entry);
-  }
-  entry.count++;
-  return {
-    allowed: entry.count <= RATE_LIMIT_MAX,
-    remaining: Math.max(0, RATE_LIMIT_MAX - entry.count),
-    resetTime: entry.resetTime
-  };
-}
+const visionProvider = createProvider();
+const metrics = createMetrics({ pricing: pricingFromEnv(visionProvider.model) });
+// Every provider call (analysis, repair, moderation, scorecard) is timed and its usage priced
+const provider = instrumentProvider(visionProvider, metrics);
+const transcriber = createTranscriber();
+const lineup = loadLineup();
+const moderator = createModerator(loadModerationRules(), {
+  provider,
+  people: lineup.brands.flatMap(brand => brand.celebrities),
+  brands: lineup.brands.map(brand => brand.name),
+  onDecision: ({ action }) => metrics.recordModeration(action)
+});
+const rooms = createRoomRegistry();
+const reels = createReelStore();
+const responseCache = createResponseCache(cacheOptionsFromEnv());
+const budgets = createBudgets({
+  store: createBudgetStore(),
+  limits: budgetLimitsFromEnv(),
+  secret: sessionSecretFromEnv()
+});
+
+// Runtime kill switches, flipped from the admin page; RATE_LIMIT_MAX lives in budgets.limits
+const controls = { analysisPaused: false };
+const PAUSED_RETRY_AFTER_SEC = 30;
+const requireAdminAuth = requireAdmin(adminPasswordFromEnv());
+
+app.use(express.json({ limit: '3mb' }));
+
+const clientIp = (req) => req.headers['x-forwarded-for']?.split(',')[0]?.trim() || req.socket.remoteAddress;
+
+// Latency and status of every API call, keyed by route pattern so ids don't explode the labels
+app.use('/api', (req, res, next) => {
+  const started = process.hrtime.bigint();
+  res.on('close', () => {
+    const ms = Number(process.hrtime.bigint() - started) / 1e6;
+    const route = req.route ? `${req.method} ${req.baseUrl}${req.route.path}` : `${req.method} unmatched`;
+    metrics.observeRequest(route, res.statusCode, Math.round(ms));
+  });
+  next();
+});
+
+// Absolute origin for links that leave the app (social cards need full URLs)
+const publicOrigin = (req) => process.env.PUBLIC_URL?.replace(/\/$/, '')
+  || `${req.headers['x-forwarded-proto']?.split(',')[0]?.trim() || req.protocol}://${req.get('host')}`;
 
 // Serve static files from Vite build
 app.use(express.static(join(__dirname, 'dist')));
 
 // Health check
 app.get('/api/health', (_req, res) => {
-  res.json({ status: 'ok', hasApiKey: !!process.env.OPENAI_API_KEY });
+  res.json({
+    status: 'ok',
+    hasApiKey: !!process.env.OPENAI_API_KEY,
+    provider: { name: provider.name, model: provider.model, configured: provider.configured },
+    transcriber: { name: transcriber.name, model: transcriber.model, configured: transcriber.configured }
+  });
+});
+
+// Tonight's expected ads, for the "seen X of Y" tracker
+app.get('/api/lineup', (_req, res) => {
+  res.json(lineup.publicLineup());
+});
+
+// Persona picker data (voice prompts stay server-side)
+app.get('/api/personas', (_req, res) => {
+  res.json({ personas: publicPersonas() });
+});
+
+// Start (or pick back up) a budgeted session; the token rides along on every provider call
+app.post('/api/session', async (req, res) => {
+  const ip = clientIp(req);
+  const existing = req.body?.token;
+  const sessionId = budgets.verifyToken(existing);
+  try {
+    if (!sessionId) {
+      const issue = await budgets.admitSessionIssue(ip);
+      if (!issue.admitted) {
+        metrics.recordRateLimited({ ip, reason: 'session-issue' });
+        res.set('Retry-After', String(Math.ceil(issue.retryAfterMs / 1000)));
+        res.status(429).json({ error: 'TOO_MANY_SESSIONS', message: 'Too many new sessions from this network. Try again later.' });
+        return;
+      }
+    }
+    const session = sessionId ? { token: existing, sessionId } : budgets.issueToken();
+    res.json({ token: session.token, budget: await budgets.status({ sessionId: session.sessionId, ip }) });
+  } catch (err) {
+    console.error('Budget store error:', err);
+    res.status(500).json({ error: 'Could not start a session' });
+  }
+});
+
+// Shared checks for every route that calls a provider: that provider's
+// configuration (the vision provider unless told otherwise), a valid session
+// token and budget left. Charges the request and returns the caller
+// ({ sessionId, ip }), or sends the error response and returns null.
+async function admitProviderCall(req, res, service = provider) {
+  if (!service.configured) {
+    res.status(400).json({ error: `Provider "${service.name}" is not configured on server` });
+    return null;
+  }
+
+  if (controls.analysisPaused) {
+    res.set('Retry-After', String(PAUSED_RETRY_AFTER_SEC));
+    res.status(503).json({ error: 'ANALYSIS_PAUSED', message: 'The roast booth is on a short break. Back soon.' });
+    return null;
+  }
+
+  const sessionId = budgets.verifyToken(req.get('X-Session-Token'));
+  if (!sessionId) {
+    res.status(401).json({ error: 'SESSION_REQUIRED', message: 'Start a session first.' });
+    return null;
+  }
+
+  const caller = { sessionId, ip: clientIp(req) };
+  try {
+    const { admitted, budget } = await budgets.admit(caller);
+    if (!admitted) {
+      metrics.recordRateLimited({ ...caller, reason: `budget-${budget.reason}` });
+      if (budget.retryAfterMs) res.set('Retry-After', String(Math.ceil(budget.retryAfterMs / 1000)));
+      res.status(429).json({ error: 'BUDGET_EXHAUSTED', message: 'Roast budget used up. Try again later.', budget });
+      return null;
+    }
+    metrics.touchSession(sessionId);
+  } catch (err) {
+    console.error('Budget store error:', err);
+    res.status(500).json({ error: 'Could not check budget' });
+    return null;
+  }
+  return caller;
+}
+
+// Usage reported by the model is charged once the call is done
+const chargeUsage = (caller, usage) => budgets.charge(caller, { tokens: usageTokens(usage) }).catch(err => {
+  console.error('Budget store error:', err);
+  return null;
+});
+
+// Provider checks plus payload validation for both analyze routes
+async function admitAnalyzeRequest(req, res) {
+  const request = parseAnalyzeRequest(req.body);
+  if (request.error) {
+    metrics.recordFailure('request');
+    res.status(400).json({ error: request.error });
+    return null;
+  }
+
+  const caller = await admitProviderCall(req, res);
+  return caller ? { request, caller } : null;
+}
+
+// Cached roasts are only shared between viewers on the same persona and heat
+const cacheScope = (request) => `${request.persona.id}:${request.context.heat}`;
+
+// Hash the frame and look for a cached roast of it. X-Cache says how it went:
+// HIT, MISS, or BYPASS when the cache is off or the frame couldn't be hashed.
+function checkResponseCache(request, res) {
+  const hash = responseCache.enabled ? frameHash(request.frame) : null;
+  const variant = hash ? responseCache.lookup(hash, cacheScope(request)) : null;
+  res.set('X-Cache', !hash ? 'BYPASS' : variant ? 'HIT' : 'MISS');
+  return { hash, cached: variant && replayAnalysis(variant, request.context.confidence) };
+}
+
+// The prompt for one frame; while the model is unsure of the brand it's shown
+// a shortlist from the lineup, categories mentioned in its theory first
+const frameRequest = (request) => buildAnalysisRequest(request, {
+  primer: request.context.confidence === 'certain' || request.context.confidence === 'suspicious'
+    ? ''
+    : lineupPrimer(lineup.candidates(request.context.previous))
 });
 
-// Proxy endpoint for OpenAI Vision API
+// Snap the model's brand guess onto the lineup's canonical name
+function matchLineupBrand(analysis) {
+  const brand = lineup.matchBrand(analysis.brandGuess);
+  return { ...analysis, brandGuess: brand ? brand.name : analysis.brandGuess, brandId: brand ? brand.id : null };
+}
+
+// Validate the frame's reply (repairing it once if needed), moderate it, cache
+// it and charge for every call made; analysis is null when even the repair came
+// back unusable
+async function finishAnalysis(content, usage, request, caller, hash) {
+  const repair = (body) => provider.complete(body, { sessionId: request.sessionId, task: 'repair' });
+  const resolved = await resolveAnalysis(content, repair);
+  if (resolved.errors) {
+    console.warn('Unusable analysis:', resolved.errors.join('; '));
+    metrics.recordFailure('analysis');
+    const budget = await chargeUsage(caller, { total_tokens: usageTokens(usage) + usageTokens(resolved.usage) });
+    return { analysis: null, budget };
+  }
+  if (resolved.repaired) metrics.recordFailure('analysis-repaired');
+  const moderated = await moderator.moderateAnalysis(resolved.analysis, {
+    persona: request.persona,
+    heat: request.context.heat,
+    sessionId: request.sessionId
+  });
+  const tokens = [usage, resolved.usage, ...moderated.usages].reduce((total, u) => total + usageTokens(u), 0);
+  const budget = await chargeUsage(caller, { total_tokens: tokens });
+  const analysis = matchLineupBrand(applyPersonaRulesToAnalysis(moderated.analysis, request.persona));
+  responseCache.store(hash, cacheScope(request), analysis);
+  return { analysis, budget };
+}
+
 app.post('/api/analyze', async (req, res) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return res.status(400).json({ error: 'OPENAI_API_KEY not configured on server' });
+  const admitted = await admitAnalyzeRequest(req, res);
+  if (!admitted) return;
+  const { request, caller } = admitted;
+  const { hash, cached } = checkResponseCache(request, res);
+
+  try {
+    if (cached) {
+      return res.json({ analysis: cached, budget: await chargeUsage(caller, null) });
+    }
+    const { content, usage } = await provider.complete(frameRequest(request), { sessionId: request.sessionId });
+    const { analysis, budget } = await finishAnalysis(content, usage, request, caller, hash);
+    if (!analysis) {
+      return res.status(502).json({ error: 'UNUSABLE_ANALYSIS', budget });
+    }
+    res.json({ analysis, budget });
+  } catch (err) {
+    console.error('Vision provider error:', err);
+    if (err instanceof ProviderError) {
+      return res.status(err.status).json({ error: 'UPSTREAM_ERROR' });
+    }
+    res.status(500).json({ error: 'Failed to reach vision provider' });
   }
+});
+
+// Streaming variant: "commentary" events carry text as the model writes it,
+// then "budget" and one "result" event with the validated analysis (or an
+// "error" event if the reply couldn't be repaired)
+app.post('/api/analyze/stream', async (req, res) => {
+  const admitted = await admitAnalyzeRequest(req, res);
+  if (!admitted) return;
+  const { request, caller } = admitted;
+  const { hash, cached } = checkResponseCache(request, res);
+
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
 
-  // Rate limit check
-  const ip = req.headers['x-forwarded-for']?.split(',')[0]?.trim() || req.socket.remoteAddress;
-  const limit = checkRateLimit(ip);
-  res.set('X-RateLimit-Remaining', String(limit.remaining));
-  if (!limit.allowed) {
-    const retryAfter = Math.ceil((limit.resetTime - Date.now()) / 1000);
-    res.set('Retry-After', String(retryAfter));
-    return res.status(429).json({ error: 'RATE_LIMIT', message: 'Rate limit exceeded. Try again later.' });
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  if (cached) {
+    sendEvent(res, 'commentary', { text: cached.commentary });
+    const budget = await chargeUsage(caller, null);
+    if (budget) sendEvent(res, 'budget', budget);
+    sendEvent(res, 'result', cached);
+    return res.end();
   }
 
+  const extractor = createCommentaryExtractor();
+  let content = '';
+  let usage = null;
+  // Live text goes out a whole word at a time and stops for good once it trips
+  // a moderation rule; the "result" event then carries the moderated line
+  let live = '';
+  let sent = 0;
+  let held = false;
   try {
-    // Validate and sanitize request body - only allow expected fields
-    const { model, messages, max_tokens, temperature, response_format } = req.body;
-    if (!model || !messages) {
-      return res.status(400).json({ error: 'Missing required fields: model, messages' });
+    for await (const chunk of provider.stream(frameRequest(request), { sessionId: request.sessionId, signal: abort.signal })) {
+      if (chunk.usage) usage = chunk.usage;
+      if (!chunk.delta) continue;
+      content += chunk.delta;
+      const text = extractor.push(chunk.delta);
+      if (!text || held) continue;
+      live += text;
+      const wordEnd = live.search(/\s\S*$/);
+      if (wordEnd <= sent) continue;
+      if (moderator.check(live.slice(0, wordEnd)).length > 0) {
+        held = true;
+        continue;
+      }
+      sendEvent(res, 'commentary', { text: live.slice(sent, wordEnd) });
+      sent = wordEnd;
     }
-    const sanitizedBody = { model, messages, max_tokens, temperature, response_format };
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(sanitizedBody)
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      return res.status(response.status).json({ error });
+    const { analysis, budget } = await finishAnalysis(content, usage, request, caller, hash);
+    if (budget) sendEvent(res, 'budget', budget);
+    if (analysis) sendEvent(res, 'result', analysis);
+    else sendEvent(res, 'error', { error: 'UNUSABLE_ANALYSIS', status: 502 });
+  } catch (err) {
+    if (abort.signal.aborted) return;
+    console.error('Vision provider stream error:', err);
+    sendEvent(res, 'error', { error: 'UPSTREAM_ERROR', status: err instanceof ProviderError ? err.status : 500 });
+  }
+  res.end();
+});
+
+// Transcribe a few seconds of the TV's audio so taglines can name the brand
+app.post('/api/transcribe', async (req, res) => {
+  const request = parseTranscribeRequest(req.body);
+  if (request.error) {
+    return res.status(400).json({ error: request.error });
+  }
+
+  if (!transcriber.configured) {
+    return res.status(503).json({ error: 'TRANSCRIBER_UNAVAILABLE' });
+  }
+
+  const caller = await admitProviderCall(req, res, transcriber);
+  if (!caller) return;
+
+  try {
+    const { text, usage } = await transcriber.transcribe(request);
+    const budget = await chargeUsage(caller, usage);
+    res.json({ text, budget });
+  } catch (err) {
+    console.error('Transcription error:', err);
+    if (err instanceof ProviderError) {
+      return res.status(err.status).json({ error: 'UPSTREAM_ERROR' });
     }
+    res.status(500).json({ error: 'Failed to reach transcriber' });
+  }
+});
 
-    const data = await response.json();
-    res.json(data);
+// Score a finished ad for the leaderboard
+app.post('/api/score', async (req, res) => {
+  const request = parseScoreRequest(req.body);
+  if (request.error) {
+    return res.status(400).json({ error: request.error });
+  }
+
+  const caller = await admitProviderCall(req, res);
+  if (!caller) return;
+
+  try {
+    const { content, usage } = await provider.complete(buildScorecardRequest(request), { task: 'scorecard' });
+    await chargeUsage(caller, usage);
+    const parsed = parseModelContent(content);
+    const scorecard = parseScorecard(parsed);
+    if (!scorecard) {
+      metrics.recordFailure('scorecard');
+      return res.status(502).json({ error: 'UNUSABLE_SCORECARD' });
+    }
+    scorecard.verdict = moderator.moderateText(scorecard.verdict, 'The judges have reached a verdict. It is sealed.', 'verdict', { sessionId: caller.sessionId });
+    // Only asked for when the ad had no one-liner of its own; a flagged one is just left out
+    const closingLine = request.ad.oneLiner ? '' : parseClosingLine(parsed);
+    const oneLiner = closingLine ? moderator.moderateText(closingLine, null, 'oneLiner', { sessionId: caller.sessionId }) : null;
+    res.json({ scorecard, ...(oneLiner ? { oneLiner } : {}) });
+  } catch (err) {
+    console.error('Scorecard error:', err);
+    if (err instanceof ProviderError) {
+      return res.status(err.status).json({ error: 'UPSTREAM_ERROR' });
+    }
+    res.status(500).json({ error: 'Failed to reach vision provider' });
+  }
+});
+
+// --- Watch-party rooms ---
+
+app.post('/api/rooms', async (req, res) => {
+  const ip = clientIp(req);
+  try {
+    if (!(await budgets.admitIp(ip))) {
+      metrics.recordRateLimited({ ip, reason: 'rooms-ip' });
+      return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
+    }
   } catch (err) {
-    console.error('OpenAI proxy error:', err);
-    res.status(500).json({ error: 'Failed to reach OpenAI API' });
+    console.error('Budget store error:', err);
+    return res.status(500).json({ error: 'Could not create a room' });
+  }
+  const room = rooms.create(ip);
+  if (room.error === 'full') {
+    return res.status(503).json({ error: 'Too many active rooms. Try again later.' });
   }
+  if (room.error === 'too-many') {
+    return res.status(429).json({ error: 'You already have a party running. End it before starting another.' });
+  }
+  res.status(201).json(room);
+});
+
+// Resolve :code to a room or send 404
+function findRoom(req, res) {
+  const room = rooms.get(req.params.code);
+  if (!room) res.status(404).json({ error: 'Room not found or expired' });
+  return room;
+}
+
+// Live room events; the host subscribes with its token so its presence keeps the room alive
+app.get('/api/rooms/:code/stream', (req, res) => {
+  const room = findRoom(req, res);
+  if (!room) return;
+  const asHost = rooms.isHost(room, req.query.hostToken);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  if (!rooms.subscribe(room, res, { asHost })) {
+    sendEvent(res, 'closed', { reason: 'full' });
+    res.end();
+  }
+});
+
+app.post('/api/rooms/:code/events', (req, res) => {
+  const room = findRoom(req, res);
+  if (!room) return;
+  if (!rooms.isHost(room, req.get('X-Host-Token'))) {
+    return res.status(403).json({ error: 'Only the host can publish' });
+  }
+  if (!rooms.publish(room, req.body)) {
+    return res.status(400).json({ error: 'Invalid event' });
+  }
+  res.status(204).end();
+});
+
+app.post('/api/rooms/:code/reactions', (req, res) => {
+  const room = findRoom(req, res);
+  if (!room) return;
+  if (!rooms.react(room, req.body?.emoji, clientIp(req))) {
+    return res.status(429).json({ error: 'Reaction rejected' });
+  }
+  res.status(204).end();
+});
+
+app.post('/api/rooms/:code/votes', (req, res) => {
+  const room = findRoom(req, res);
+  if (!room) return;
+  const counts = rooms.vote(room, req.body?.lineId, req.get('X-Voter-Token'), req.body?.vote);
+  if (!counts) {
+    return res.status(400).json({ error: 'Invalid vote' });
+  }
+  res.json(counts);
+});
+
+app.delete('/api/rooms/:code', (req, res) => {
+  const room = findRoom(req, res);
+  if (!room) return;
+  if (!rooms.isHost(room, req.get('X-Host-Token'))) {
+    return res.status(403).json({ error: 'Only the host can end the room' });
+  }
+  rooms.close(room);
+  res.status(204).end();
+});
+
+// --- Shareable permalinks ---
+
+app.post('/api/reels', async (req, res) => {
+  const parsed = parseReelRequest(req.body);
+  if (parsed.error) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  // Reels go public, so their text gets the same rule check as live commentary
+  const { title, ads } = parsed.reel;
+  const flagged = [title, ...ads.flatMap(ad => [ad.brandGuess, ad.oneLiner, ad.scorecard?.verdict])]
+    .some(text => moderator.moderateText(text, null, 'reel', {}) === null);
+  if (flagged) {
+    return res.status(422).json({ error: 'REEL_TEXT_FLAGGED' });
+  }
+  try {
+    if (!(await budgets.admitIp(clientIp(req)))) {
+      metrics.recordRateLimited({ ip: clientIp(req), reason: 'reels-ip' });
+      return res.status(429).json({ error: 'Rate limit exceeded. Try again later.' });
+    }
+    const { id, deleteToken } = await publishReel(reels, parsed.reel);
+    res.status(201).json({ id, url: `${publicOrigin(req)}/r/${id}`, deleteToken });
+  } catch (err) {
+    console.error('Reel publish error:', err);
+    res.status(500).json({ error: 'Could not save the reel' });
+  }
+});
+
+// Resolve :id to a stored reel or send 404
+async function findReel(req, res) {
+  try {
+    const reel = isReelId(req.params.id) ? await reels.get(req.params.id) : null;
+    if (!reel) res.status(404).json({ error: 'Reel not found' });
+    return reel;
+  } catch (err) {
+    console.error('Reel load error:', err);
+    res.status(500).json({ error: 'Could not load the reel' });
+    return null;
+  }
+}
+
+app.get('/api/reels/:id', async (req, res) => {
+  const reel = await findReel(req, res);
+  if (reel) res.json(publicReel(reel));
+});
+
+app.delete('/api/reels/:id', async (req, res) => {
+  const reel = await findReel(req, res);
+  if (!reel) return;
+  if (!canDeleteReel(reel, req.get('X-Delete-Token'))) {
+    return res.status(403).json({ error: 'Invalid deletion token' });
+  }
+  try {
+    await reels.delete(reel.id);
+    res.status(204).end();
+  } catch (err) {
+    console.error('Reel delete error:', err);
+    res.status(500).json({ error: 'Could not delete the reel' });
+  }
+});
+
+// Read-only reel page with social meta tags, and its preview card
+app.get('/r/:id', async (req, res, next) => {
+  try {
+    const reel = isReelId(req.params.id) ? await reels.get(req.params.id) : null;
+    if (!reel) return next();
+    const pageUrl = `${publicOrigin(req)}/r/${reel.id}`;
+    res.set('Cache-Control', 'public, max-age=300');
+    res.type('html').send(renderReelPage(reel, { pageUrl, imageUrl: `${pageUrl}/card.png` }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+app.get('/r/:id/card.png', async (req, res, next) => {
+  try {
+    const reel = isReelId(req.params.id) ? await reels.get(req.params.id) : null;
+    if (!reel) return res.status(404).end();
+    const png = renderPreviewCard({ ...reelPreview(reel), footer: req.get('host') || 'SLOPBOWL' });
+    res.set('Cache-Control', 'public, max-age=86400');
+    res.type('png').send(png);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// --- Operator metrics and kill switches (Basic auth with ADMIN_PASSWORD) ---
+
+const adminControls = () => ({ analysisPaused: controls.analysisPaused, rateLimitMax: budgets.limits.ipRequests });
+
+app.get('/api/admin/metrics', requireAdminAuth, (_req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.json(metrics.snapshot({ cache: responseCache.stats(), controls: adminControls() }));
+});
+
+// Prometheus scrape target (configure the scrape job with basic_auth)
+app.get('/metrics', requireAdminAuth, (_req, res) => {
+  const cache = responseCache.stats();
+  res.type('text/plain; version=0.0.4').send(metrics.prometheus({
+    response_cache_entries: { help: 'Frames in the response cache', value: cache.entries },
+    response_cache_hits: { help: 'Response cache hits since start', value: cache.hits },
+    response_cache_misses: { help: 'Response cache misses since start', value: cache.misses },
+    analysis_paused: { help: '1 while analysis is paused from the admin page', value: controls.analysisPaused ? 1 : 0 },
+    rate_limit_max: { help: 'Current per-IP hourly request cap', value: budgets.limits.ipRequests }
+  }));
+});
+
+app.post('/api/admin/controls', requireAdminAuth, (req, res) => {
+  const parsed = parseControlsRequest(req.body);
+  if (parsed.error) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const { analysisPaused, rateLimitMax } = parsed.controls;
+  if (analysisPaused !== undefined) controls.analysisPaused = analysisPaused;
+  if (rateLimitMax !== undefined) budgets.limits.ipRequests = rateLimitMax;
+  console.log(JSON.stringify({ event: 'admin-controls', ...parsed.controls, ip: clientIp(req) }));
+  res.json({ controls: adminControls() });
+});
+
+app.get('/admin', requireAdminAuth, (_req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.type('html').send(renderAdminPage());
 });
 
 // SPA fallback
@@ -99,5 +615,5 @@ app.get('*', (_req, res) => {
 });
 
 app.listen(PORT, () => {
-  console.log(`SlopBowl server running on port ${PORT}`);
+  console.log(`SlopBowl server running on port ${PORT} (vision provider: ${provider.name}, transcriber: ${transcriber.name})`);
 });
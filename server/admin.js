@@ -0,0 +1,187 @@
+// Operator side of game night: HTTP Basic auth for the admin routes, the
+// runtime kill switches, and a self-contained dashboard page that polls the
+// metrics snapshot and draws it. The whole admin surface is off unless
+// ADMIN_PASSWORD is set.
+import { createHash, timingSafeEqual } from 'crypto';
+
+const MAX_RATE_LIMIT = 1_000_000;
+
+export const adminPasswordFromEnv = (env = process.env) => env.ADMIN_PASSWORD || null;
+
+const digest = (text) => createHash('sha256').update(text).digest();
+
+// Express middleware; any username works, the password must match. Without a
+// password configured the admin routes don't exist.
+export function requireAdmin(password) {
+  const expected = password ? digest(password) : null;
+  return (req, res, next) => {
+    if (!expected) return res.status(404).json({ error: 'Not found' });
+    const [scheme, encoded] = (req.get('Authorization') || '').split(' ');
+    const supplied = scheme === 'Basic' && encoded
+      ? Buffer.from(encoded, 'base64').toString('utf8').split(':').slice(1).join(':')
+      : '';
+    if (!timingSafeEqual(digest(supplied), expected)) {
+      res.set('WWW-Authenticate', 'Basic realm="SlopBowl admin", charset="UTF-8"');
+      return res.status(401).json({ error: 'ADMIN_AUTH_REQUIRED' });
+    }
+    next();
+  };
+}
+
+// POST /api/admin/controls body: { analysisPaused?: boolean, rateLimitMax?: number }
+export function parseControlsRequest(body) {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid controls' };
+  }
+  const controls = {};
+  if (body.analysisPaused !== undefined) {
+    if (typeof body.analysisPaused !== 'boolean') return { error: 'analysisPaused must be a boolean' };
+    controls.analysisPaused = body.analysisPaused;
+  }
+  if (body.rateLimitMax !== undefined) {
+    const max = body.rateLimitMax;
+    if (!Number.isInteger(max) || max < 1 || max > MAX_RATE_LIMIT) {
+      return { error: `rateLimitMax must be an integer from 1 to ${MAX_RATE_LIMIT}` };
+    }
+    controls.rateLimitMax = max;
+  }
+  if (Object.keys(controls).length === 0) {
+    return { error: 'Nothing to change' };
+  }
+  return { controls };
+}
+
+// Inline charts keep the page dependency-free; it polls every 5s with the
+// credentials the browser already has from the Basic auth prompt
+export function renderAdminPage() {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <meta name="robots" content="noindex" />
+  <title>SLOPBOWL — Control room</title>
+  <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
+  <style>
+    body { margin: 0; padding: 1.5rem; background: #0a0a0a; color: #f0f0f0; font-family: ui-monospace, monospace; }
+    h1 { margin: 0 0 1rem; font-size: 1.4rem; letter-spacing: 0.08em; color: #8aff00; }
+    h2 { margin: 0 0 0.5rem; font-size: 0.8rem; letter-spacing: 0.1em; color: #888; text-transform: uppercase; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 1rem; }
+    .panel { background: #141414; border: 1px solid #262626; border-radius: 8px; padding: 1rem; }
+    .stat { font-size: 1.8rem; font-weight: 700; }
+    .stat small { font-size: 0.8rem; color: #888; font-weight: 400; }
+    svg { width: 100%; height: 90px; display: block; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.8rem; }
+    td { padding: 0.2rem 0; border-bottom: 1px solid #262626; word-break: break-all; }
+    td:last-child { text-align: right; }
+    .controls { display: flex; flex-wrap: wrap; gap: 1rem; align-items: center; margin-bottom: 1rem; }
+    button, input { font: inherit; padding: 0.5rem 0.8rem; border-radius: 6px; border: 1px solid #333; background: #1a1a1a; color: inherit; }
+    button { cursor: pointer; }
+    button.danger { background: #ff3333; border-color: #ff3333; color: #0a0a0a; font-weight: 700; }
+    input { width: 7rem; }
+    .paused { color: #ff3333; font-weight: 700; }
+    #status { color: #888; font-size: 0.8rem; }
+  </style>
+</head>
+<body>
+  <h1>SLOPBOWL CONTROL ROOM</h1>
+  <div class="controls panel">
+    <button id="pause" type="button">…</button>
+    <label>RATE_LIMIT_MAX <input id="rate" type="number" min="1" step="1" /></label>
+    <button id="apply-rate" type="button">Apply</button>
+    <span id="status"></span>
+  </div>
+  <div class="grid" id="stats"></div>
+  <div class="grid" id="charts" style="margin-top: 1rem"></div>
+  <div class="grid" id="tables" style="margin-top: 1rem"></div>
+  <script>
+    const $ = (id) => document.getElementById(id);
+    const esc = (text) => String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    const money = (usd) => '$' + usd.toFixed(usd < 1 ? 4 : 2);
+    let state = null;
+
+    function sparkline(points, color) {
+      const max = Math.max(1, ...points);
+      const step = points.length > 1 ? 300 / (points.length - 1) : 0;
+      const path = points.map((v, i) => (i ? 'L' : 'M') + (i * step).toFixed(1) + ',' + (88 - (v / max) * 84).toFixed(1)).join(' ');
+      return '<svg viewBox="0 0 300 90" preserveAspectRatio="none"><path d="' + path + '" fill="none" stroke="' + color + '" stroke-width="2" /></svg>';
+    }
+
+    const panel = (title, body) => '<div class="panel"><h2>' + esc(title) + '</h2>' + body + '</div>';
+    const table = (rows) => rows.length
+      ? '<table>' + rows.map(([k, v]) => '<tr><td>' + esc(k) + '</td><td>' + esc(v) + '</td></tr>').join('') + '</table>'
+      : '<p>None yet</p>';
+
+    function render(m) {
+      state = m;
+      const c = m.controls;
+      $('pause').textContent = c.analysisPaused ? 'Resume analysis' : 'Pause analysis';
+      $('pause').className = c.analysisPaused ? '' : 'danger';
+      if (document.activeElement !== $('rate')) $('rate').value = c.rateLimitMax;
+      const limited = Object.values(m.rateLimited.byReason).reduce((a, b) => a + b, 0);
+      const failures = Object.values(m.failures).reduce((a, b) => a + b, 0);
+      $('stats').innerHTML = [
+        panel('Analysis', c.analysisPaused ? '<div class="stat paused">PAUSED</div>' : '<div class="stat">LIVE</div>'),
+        panel('Active sessions', '<div class="stat">' + m.activeSessions + '</div>'),
+        panel('Tokens', '<div class="stat">' + (m.usage.promptTokens + m.usage.completionTokens).toLocaleString() + ' <small>' + money(m.usage.costUsd) + ' est.</small></div>'),
+        panel('429s', '<div class="stat">' + limited + '</div>'),
+        panel('Parse / validation failures', '<div class="stat">' + failures + '</div>'),
+        panel('Response cache', '<div class="stat">' + m.cache.hits + ' <small>hits / ' + m.cache.misses + ' misses</small></div>')
+      ].join('');
+      const s = m.series;
+      $('charts').innerHTML = [
+        panel('Requests / min', sparkline(s.map(p => p.requests), '#8aff00')),
+        panel('p95 latency ms', sparkline(s.map(p => p.p95Ms), '#ffcc00')),
+        panel('Tokens / min', sparkline(s.map(p => p.tokens), '#8aff00')),
+        panel('429s / min', sparkline(s.map(p => p.rateLimited), '#ff3333'))
+      ].join('');
+      $('tables').innerHTML = [
+        panel('Routes', table(Object.entries(m.routes).map(([r, e]) => [r, e.count + ' · ' + e.avgMs + 'ms avg · ' + e.errors + ' 5xx']))),
+        panel('Usage by task', table(Object.entries(m.usage.byTask).map(([t, e]) => [t, e.calls + ' calls · ' + (e.promptTokens + e.completionTokens) + ' tok · ' + money(e.costUsd)]))),
+        panel('429s by IP', table(m.rateLimited.topIps.map(e => [e.key, e.count]))),
+        panel('429s by session', table(m.rateLimited.topSessions.map(e => [e.key, e.count]))),
+        panel('Failures', table(Object.entries(m.failures))),
+        panel('Moderation', table(Object.entries(m.moderation)))
+      ].join('');
+      $('status').textContent = 'Updated ' + new Date().toLocaleTimeString() + ' · up ' + Math.round(m.uptimeSec / 60) + 'm';
+    }
+
+    async function refresh() {
+      try {
+        const response = await fetch('/api/admin/metrics', { credentials: 'same-origin' });
+        if (!response.ok) throw new Error('HTTP ' + response.status);
+        render(await response.json());
+      } catch (err) {
+        $('status').textContent = 'Refresh failed: ' + err.message;
+      }
+    }
+
+    async function setControls(body) {
+      const response = await fetch('/api/admin/controls', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        $('status').textContent = data.error || 'Update failed';
+        return;
+      }
+      await refresh();
+    }
+
+    $('pause').addEventListener('click', () => {
+      if (!state) return;
+      const pausing = !state.controls.analysisPaused;
+      if (pausing && !confirm('Pause analysis for every viewer?')) return;
+      setControls({ analysisPaused: pausing });
+    });
+    $('apply-rate').addEventListener('click', () => setControls({ rateLimitMax: Number($('rate').value) }));
+
+    refresh();
+    setInterval(refresh, 5000);
+  </script>
+</body>
+</html>`;
+}
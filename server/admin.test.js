@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseControlsRequest, requireAdmin } from './admin.js';
+
+// Just enough of Express's req/res for the middleware
+function call(middleware, authorization) {
+  const result = { status: null, body: null, headers: {}, passed: false };
+  const req = { get: (name) => (name === 'Authorization' ? authorization : undefined) };
+  const res = {
+    status(code) { result.status = code; return this; },
+    json(body) { result.body = body; return this; },
+    set(name, value) { result.headers[name] = value; return this; }
+  };
+  middleware(req, res, () => { result.passed = true; });
+  return result;
+}
+
+const basic = (user, password) => `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+
+describe('requireAdmin', () => {
+  it('hides the admin routes without a password', () => {
+    expect(call(requireAdmin(null), basic('admin', ''))).toMatchObject({ status: 404, passed: false });
+  });
+
+  it('lets through the right password under any username', () => {
+    expect(call(requireAdmin('s3cret:word'), basic('anyone', 's3cret:word')).passed).toBe(true);
+  });
+
+  it('challenges a wrong or missing password', () => {
+    for (const authorization of [basic('admin', 'nope'), undefined, 'Bearer s3cret']) {
+      const result = call(requireAdmin('s3cret'), authorization);
+      expect(result).toMatchObject({ status: 401, body: { error: 'ADMIN_AUTH_REQUIRED' }, passed: false });
+      expect(result.headers['WWW-Authenticate']).toMatch(/^Basic /);
+    }
+  });
+});
+
+describe('parseControlsRequest', () => {
+  it('accepts either control on its own or both', () => {
+    expect(parseControlsRequest({ analysisPaused: true })).toEqual({ controls: { analysisPaused: true } });
+    expect(parseControlsRequest({ analysisPaused: false, rateLimitMax: 500 }))
+      .toEqual({ controls: { analysisPaused: false, rateLimitMax: 500 } });
+  });
+
+  it('rejects bad values and empty requests', () => {
+    expect(parseControlsRequest(null).error).toBeDefined();
+    expect(parseControlsRequest({}).error).toBe('Nothing to change');
+    expect(parseControlsRequest({ analysisPaused: 'yes' }).error).toMatch(/boolean/);
+    for (const rateLimitMax of [0, 2.5, '100', 2_000_000]) {
+      expect(parseControlsRequest({ rateLimitMax }).error).toMatch(/rateLimitMax/);
+    }
+  });
+});
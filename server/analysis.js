@@ -0,0 +1,126 @@
+// Validation for the model's per-frame analysis. Replies are checked field by
+// field (types, enums, length limits); an unusable reply gets one cheap
+// text-only repair call, and if that fails too the frame is dropped rather
+// than showing raw model output as commentary.
+import { parseModelContent } from './prompt.js';
+
+export const CONFIDENCE_LEVELS = ['guessing', 'suspicious', 'certain'];
+
+export const ANALYSIS_LIMITS = {
+  commentary: 280,
+  theory: 200,
+  brandGuess: 60,
+  tropes: 10,
+  tropeChars: 60,
+  adSummaryOneLiner: 200
+};
+
+const REPAIR_MAX_TOKENS = 200;
+
+// Placeholder brands the model uses instead of null
+const NO_BRAND = /^(null|none|unknown|n\/a|unclear)$/i;
+
+const optionalString = (value) => (value === undefined || value === null ? '' : value);
+
+// Returns { analysis } with cleaned fields, or { errors } naming each problem
+export function validateAnalysis(parsed) {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['reply is not a JSON object'] };
+  }
+  const errors = [];
+
+  const commentary = typeof parsed.commentary === 'string' ? parsed.commentary.trim() : null;
+  if (!commentary) errors.push('commentary must be a non-empty string');
+  else if (commentary.length > ANALYSIS_LIMITS.commentary) errors.push(`commentary must be at most ${ANALYSIS_LIMITS.commentary} characters`);
+
+  const theory = optionalString(parsed.theory);
+  if (typeof theory !== 'string') errors.push('theory must be a string');
+  else if (theory.length > ANALYSIS_LIMITS.theory) errors.push(`theory must be at most ${ANALYSIS_LIMITS.theory} characters`);
+
+  let brandGuess = parsed.brandGuess ?? null;
+  if (brandGuess !== null && typeof brandGuess !== 'string') errors.push('brandGuess must be a string or null');
+  else if (typeof brandGuess === 'string') {
+    brandGuess = brandGuess.trim();
+    if (!brandGuess || NO_BRAND.test(brandGuess)) brandGuess = null;
+    else if (brandGuess.length > ANALYSIS_LIMITS.brandGuess) errors.push(`brandGuess must be at most ${ANALYSIS_LIMITS.brandGuess} characters`);
+  }
+
+  const confidence = parsed.confidence ?? 'guessing';
+  if (!CONFIDENCE_LEVELS.includes(confidence)) errors.push(`confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}`);
+
+  const tropesDetected = parsed.tropesDetected ?? [];
+  if (!Array.isArray(tropesDetected) || tropesDetected.some(t => typeof t !== 'string')) {
+    errors.push('tropesDetected must be an array of strings');
+  } else if (tropesDetected.length > ANALYSIS_LIMITS.tropes) {
+    errors.push(`tropesDetected must have at most ${ANALYSIS_LIMITS.tropes} entries`);
+  } else if (tropesDetected.some(t => t.length > ANALYSIS_LIMITS.tropeChars)) {
+    errors.push(`each trope must be at most ${ANALYSIS_LIMITS.tropeChars} characters`);
+  }
+
+  const isNewAd = parsed.isNewAd ?? false;
+  if (typeof isNewAd !== 'boolean') errors.push('isNewAd must be a boolean');
+
+  const adSummaryOneLiner = optionalString(parsed.adSummaryOneLiner);
+  if (typeof adSummaryOneLiner !== 'string') errors.push('adSummaryOneLiner must be a string');
+  else if (adSummaryOneLiner.length > ANALYSIS_LIMITS.adSummaryOneLiner) errors.push(`adSummaryOneLiner must be at most ${ANALYSIS_LIMITS.adSummaryOneLiner} characters`);
+
+  if (errors.length > 0) return { errors };
+  return {
+    analysis: {
+      commentary,
+      theory: theory.trim(),
+      brandGuess,
+      confidence,
+      tropesDetected: tropesDetected.map(t => t.trim()).filter(Boolean),
+      isNewAd,
+      adSummaryOneLiner: adSummaryOneLiner.trim()
+    }
+  };
+}
+
+// Text-only follow-up asking the model to fix its own reply; no frame, so it's cheap
+export function buildRepairRequest(content, errors) {
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `You fix malformed JSON. Rewrite the reply below as ONE JSON object with exactly these fields:
+{
+  "commentary": "string, 1-${ANALYSIS_LIMITS.commentary} characters",
+  "theory": "string, at most ${ANALYSIS_LIMITS.theory} characters",
+  "brandGuess": "string of at most ${ANALYSIS_LIMITS.brandGuess} characters, or null",
+  "confidence": "${CONFIDENCE_LEVELS.join('|')}",
+  "tropesDetected": ["at most ${ANALYSIS_LIMITS.tropes} strings of at most ${ANALYSIS_LIMITS.tropeChars} characters"],
+  "isNewAd": false,
+  "adSummaryOneLiner": "string, at most ${ANALYSIS_LIMITS.adSummaryOneLiner} characters"
+}
+Keep the original wording where you can; shorten anything too long. Output only the JSON.`
+      },
+      {
+        role: 'user',
+        content: `Problems: ${errors.join('; ')}\n\nReply:\n${content.slice(0, 2000)}`
+      }
+    ],
+    max_tokens: REPAIR_MAX_TOKENS,
+    temperature: 0,
+    response_format: { type: 'json_object' }
+  };
+}
+
+const check = (content) => validateAnalysis(parseModelContent(content));
+
+// Validate a reply, repairing it once through `complete` if needed. Resolves to
+// { analysis, repaired, usage } or { errors, usage }; usage is the repair call's.
+export async function resolveAnalysis(content, complete) {
+  const first = check(content);
+  if (first.analysis) return { analysis: first.analysis, repaired: false, usage: null };
+
+  try {
+    const repair = await complete(buildRepairRequest(content, first.errors));
+    const second = check(repair.content);
+    if (second.analysis) return { analysis: second.analysis, repaired: true, usage: repair.usage };
+    return { errors: [...first.errors, ...second.errors.map(e => `after repair: ${e}`)], usage: repair.usage };
+  } catch (err) {
+    return { errors: [...first.errors, `repair failed: ${err.message}`], usage: null };
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ANALYSIS_LIMITS, buildRepairRequest, resolveAnalysis, validateAnalysis } from './analysis.js';
+
+const valid = {
+  commentary: 'Slow-motion fizz. Bold.',
+  theory: 'Soda, probably',
+  brandGuess: 'Fizzy Cola',
+  confidence: 'suspicious',
+  tropesDetected: ['slow motion'],
+  isNewAd: false,
+  adSummaryOneLiner: 'Sugar water, but slower.'
+};
+
+const reply = (fields) => JSON.stringify(fields);
+
+describe('validateAnalysis', () => {
+  it('passes a complete reply through, trimmed', () => {
+    const { analysis } = validateAnalysis({ ...valid, commentary: '  Bold.  ', tropesDetected: [' slow motion ', ''] });
+    expect(analysis).toEqual({ ...valid, commentary: 'Bold.', tropesDetected: ['slow motion'] });
+  });
+
+  it('fills defaults for optional fields', () => {
+    expect(validateAnalysis({ commentary: 'Hi.' }).analysis).toEqual({
+      commentary: 'Hi.',
+      theory: '',
+      brandGuess: null,
+      confidence: 'guessing',
+      tropesDetected: [],
+      isNewAd: false,
+      adSummaryOneLiner: ''
+    });
+  });
+
+  it('turns placeholder brands into null', () => {
+    for (const brandGuess of ['unknown', 'N/A', 'none', '  ']) {
+      expect(validateAnalysis({ ...valid, brandGuess }).analysis?.brandGuess).toBeNull();
+    }
+  });
+
+  it.each([
+    ['a non-object reply', null, 'reply is not a JSON object'],
+    ['an array', [valid], 'reply is not a JSON object'],
+    ['missing commentary', { ...valid, commentary: undefined }, 'commentary must be a non-empty string'],
+    ['blank commentary', { ...valid, commentary: '   ' }, 'commentary must be a non-empty string'],
+    ['overlong commentary', { ...valid, commentary: 'x'.repeat(ANALYSIS_LIMITS.commentary + 1) }, 'commentary must be at most'],
+    ['a non-string theory', { ...valid, theory: 3 }, 'theory must be a string'],
+    ['an overlong theory', { ...valid, theory: 'x'.repeat(ANALYSIS_LIMITS.theory + 1) }, 'theory must be at most'],
+    ['a non-string brand', { ...valid, brandGuess: 7 }, 'brandGuess must be a string or null'],
+    ['an overlong brand', { ...valid, brandGuess: 'x'.repeat(ANALYSIS_LIMITS.brandGuess + 1) }, 'brandGuess must be at most'],
+    ['an unknown confidence', { ...valid, confidence: 'sure' }, 'confidence must be one of'],
+    ['non-array tropes', { ...valid, tropesDetected: 'slow motion' }, 'tropesDetected must be an array of strings'],
+    ['non-string tropes', { ...valid, tropesDetected: [1] }, 'tropesDetected must be an array of strings'],
+    ['too many tropes', { ...valid, tropesDetected: Array(ANALYSIS_LIMITS.tropes + 1).fill('t') }, 'tropesDetected must have at most'],
+    ['an overlong trope', { ...valid, tropesDetected: ['x'.repeat(ANALYSIS_LIMITS.tropeChars + 1)] }, 'each trope must be at most'],
+    ['a non-boolean isNewAd', { ...valid, isNewAd: 'yes' }, 'isNewAd must be a boolean'],
+    ['a non-string one-liner', { ...valid, adSummaryOneLiner: {} }, 'adSummaryOneLiner must be a string'],
+    ['an overlong one-liner', { ...valid, adSummaryOneLiner: 'x'.repeat(ANALYSIS_LIMITS.adSummaryOneLiner + 1) }, 'adSummaryOneLiner must be at most']
+  ])('rejects %s', (_name, parsed, message) => {
+    const result = validateAnalysis(parsed);
+    expect(result.analysis).toBeUndefined();
+    expect(result.errors.some(error => error.startsWith(message))).toBe(true);
+  });
+
+  it('reports every problem at once', () => {
+    expect(validateAnalysis({ commentary: '', confidence: 'sure', isNewAd: 1 }).errors).toHaveLength(3);
+  });
+});
+
+describe('buildRepairRequest', () => {
+  it('is a text-only, deterministic call listing the problems', () => {
+    const request = buildRepairRequest('{"commentary": ""}', ['commentary must be a non-empty string']);
+    expect(request.temperature).toBe(0);
+    expect(request.messages.every(m => typeof m.content === 'string')).toBe(true);
+    expect(request.messages[1].content).toContain('commentary must be a non-empty string');
+  });
+});
+
+describe('resolveAnalysis', () => {
+  const usage = { total_tokens: 42 };
+
+  it('accepts a valid reply without a repair call', async () => {
+    const complete = vi.fn();
+    const result = await resolveAnalysis(reply(valid), complete);
+    expect(result).toEqual({ analysis: valid, repaired: false, usage: null });
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('accepts a valid reply wrapped in a code fence', async () => {
+    const result = await resolveAnalysis(`\`\`\`json\n${reply(valid)}\n\`\`\``, vi.fn());
+    expect(result.analysis).toEqual(valid);
+  });
+
+  it('repairs an invalid reply exactly once', async () => {
+    const complete = vi.fn().mockResolvedValue({ content: reply(valid), usage });
+    const result = await resolveAnalysis(reply({ ...valid, confidence: 'sure' }), complete);
+    expect(result).toEqual({ analysis: valid, repaired: true, usage });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('repairs a reply that is not JSON at all', async () => {
+    const complete = vi.fn().mockResolvedValue({ content: reply(valid), usage });
+    const result = await resolveAnalysis('Sure! Here is my roast: bold.', complete);
+    expect(result.repaired).toBe(true);
+    expect(complete.mock.calls[0][0].messages[1].content).toContain('reply is not a JSON object');
+  });
+
+  it('gives up when the repair is invalid too, without a second retry', async () => {
+    const complete = vi.fn().mockResolvedValue({ content: reply({ commentary: '' }), usage });
+    const result = await resolveAnalysis('not json', complete);
+    expect(result.analysis).toBeUndefined();
+    expect(result.errors).toEqual([
+      'reply is not a JSON object',
+      'after repair: commentary must be a non-empty string'
+    ]);
+    expect(result.usage).toBe(usage);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up when the repair call fails', async () => {
+    const complete = vi.fn().mockRejectedValue(new Error('timeout'));
+    const result = await resolveAnalysis('not json', complete);
+    expect(result).toEqual({ errors: ['reply is not a JSON object', 'repair failed: timeout'], usage: null });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,321 @@
+// Usage budgets for provider calls. Each viewing session gets an HMAC-signed
+// token from POST /api/session; requests and the model's reported usage tokens
+// are charged both to that session and to the caller's IP (a generous hourly
+// cap, since a whole bar can share one address). Counters live in a pluggable
+// store so they survive reloads and, with the file or SQLite store, restarts.
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdirSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const IP_WINDOW_MS = 60 * 60 * 1000;
+const SWEEP_MS = 10 * 60 * 1000;
+const FILE_FLUSH_MS = 5000;
+
+const DEFAULT_LIMITS = {
+  sessionRequests: 400, // ~20 minutes at one frame every 3s
+  sessionTokens: 400_000,
+  ipRequests: 2000,
+  ipTokens: 2_000_000,
+  ipSessions: 60 // new session tokens per IP per hour
+};
+
+const positiveInt = (value, fallback) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+};
+
+export function budgetLimitsFromEnv(env = process.env) {
+  return {
+    sessionRequests: positiveInt(env.SESSION_MAX_REQUESTS, DEFAULT_LIMITS.sessionRequests),
+    sessionTokens: positiveInt(env.SESSION_MAX_TOKENS, DEFAULT_LIMITS.sessionTokens),
+    ipRequests: positiveInt(env.RATE_LIMIT_MAX, DEFAULT_LIMITS.ipRequests),
+    ipTokens: positiveInt(env.IP_MAX_TOKENS, DEFAULT_LIMITS.ipTokens),
+    ipSessions: positiveInt(env.SESSION_ISSUE_MAX, DEFAULT_LIMITS.ipSessions)
+  };
+}
+
+// --- Counter stores ---
+// get(key), add(key, { requests, tokens }, ttlMs), and admit(charges, delta):
+// check-and-charge in one step. admit adds delta to every counter only when
+// each is still under its max, so concurrent requests can't all slip through
+// on the same last unit of budget.
+
+const freshEntry = (ttlMs, now) => ({ requests: 0, tokens: 0, expiresAt: now + ttlMs });
+
+const withinMax = (entry, max) =>
+  (max.requests === undefined || (entry?.requests ?? 0) < max.requests) &&
+  (max.tokens === undefined || (entry?.tokens ?? 0) < max.tokens);
+
+function createMemoryCounters(initial = {}) {
+  const counters = new Map(Object.entries(initial));
+  const live = (key, now = Date.now()) => {
+    const entry = counters.get(key);
+    if (entry && entry.expiresAt > now) return entry;
+    counters.delete(key);
+    return null;
+  };
+  const bump = (key, { requests = 0, tokens = 0 }, ttlMs, now) => {
+    const entry = live(key, now) ?? freshEntry(ttlMs, now);
+    entry.requests += requests;
+    entry.tokens += tokens;
+    counters.set(key, entry);
+    return entry;
+  };
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const key of counters.keys()) live(key, now);
+  }, SWEEP_MS).unref();
+
+  // No await between the check and the add, so this is atomic within the process
+  return {
+    counters,
+    async get(key) {
+      return live(key);
+    },
+    async add(key, delta, ttlMs) {
+      return bump(key, delta, ttlMs, Date.now());
+    },
+    async admit(charges, delta) {
+      const now = Date.now();
+      const entries = charges.map(({ key }) => live(key, now));
+      if (!charges.every(({ max }, i) => withinMax(entries[i], max))) return { admitted: false, entries };
+      return { admitted: true, entries: charges.map(({ key, ttlMs }) => bump(key, delta, ttlMs, now)) };
+    }
+  };
+}
+
+function createMemoryStore() {
+  const { get, add, admit } = createMemoryCounters();
+  return { name: 'memory', get, add, admit };
+}
+
+// Memory counters mirrored to a JSON file, flushed a few seconds after changes
+function createFileStore(path) {
+  let initial = {};
+  try {
+    initial = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error('Budget store unreadable, starting empty:', err.message);
+  }
+  const memory = createMemoryCounters(initial);
+  let flushTimer = null;
+
+  const flush = async () => {
+    flushTimer = null;
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(Object.fromEntries(memory.counters)));
+      await rename(`${path}.tmp`, path);
+    } catch (err) {
+      console.error('Budget store flush error:', err);
+    }
+  };
+  const scheduleFlush = () => {
+    flushTimer ??= setTimeout(flush, FILE_FLUSH_MS);
+  };
+
+  return {
+    name: 'file',
+    get: memory.get,
+    async add(key, delta, ttlMs) {
+      const entry = await memory.add(key, delta, ttlMs);
+      scheduleFlush();
+      return entry;
+    },
+    async admit(charges, delta) {
+      const result = await memory.admit(charges, delta);
+      if (result.admitted) scheduleFlush();
+      return result;
+    }
+  };
+}
+
+// Every change committed to SQLite before the request goes on, so counters
+// survive crashes and can be shared by several server processes on one host.
+// better-sqlite3 is an optional dependency, only loaded for this store.
+function createSqliteStore(path) {
+  let Database;
+  try {
+    Database = createRequire(import.meta.url)('better-sqlite3');
+  } catch {
+    throw new Error('BUDGET_STORE=sqlite needs the better-sqlite3 package (npm install better-sqlite3)');
+  }
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(`CREATE TABLE IF NOT EXISTS budget_counters (
+    key TEXT PRIMARY KEY,
+    requests INTEGER NOT NULL,
+    tokens INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  )`);
+
+  const select = db.prepare(
+    'SELECT requests, tokens, expires_at AS expiresAt FROM budget_counters WHERE key = ? AND expires_at > ?'
+  );
+  const upsert = db.prepare(`INSERT INTO budget_counters (key, requests, tokens, expires_at)
+    VALUES (@key, @requests, @tokens, @expiresAt)
+    ON CONFLICT(key) DO UPDATE SET requests = excluded.requests, tokens = excluded.tokens, expires_at = excluded.expires_at`);
+  const sweep = db.prepare('DELETE FROM budget_counters WHERE expires_at <= ?');
+
+  const live = (key, now) => select.get(key, now) ?? null;
+  const bump = (key, { requests = 0, tokens = 0 }, ttlMs, now) => {
+    const entry = live(key, now) ?? freshEntry(ttlMs, now);
+    entry.requests += requests;
+    entry.tokens += tokens;
+    upsert.run({ key, ...entry });
+    return entry;
+  };
+  // IMMEDIATE takes the write lock up front, so the check and the charge see
+  // the same counters even with other processes writing
+  const add = db.transaction((key, delta, ttlMs) => bump(key, delta, ttlMs, Date.now()));
+  const admit = db.transaction((charges, delta) => {
+    const now = Date.now();
+    const entries = charges.map(({ key }) => live(key, now));
+    if (!charges.every(({ max }, i) => withinMax(entries[i], max))) return { admitted: false, entries };
+    return { admitted: true, entries: charges.map(({ key, ttlMs }) => bump(key, delta, ttlMs, now)) };
+  });
+
+  setInterval(() => sweep.run(Date.now()), SWEEP_MS).unref();
+
+  return {
+    name: 'sqlite',
+    async get(key) {
+      return live(key, Date.now());
+    },
+    async add(key, delta, ttlMs) {
+      return add.immediate(key, delta, ttlMs);
+    },
+    async admit(charges, delta) {
+      return admit.immediate(charges, delta);
+    }
+  };
+}
+
+export function createBudgetStore(env = process.env) {
+  const kind = (env.BUDGET_STORE || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      return createMemoryStore();
+    case 'file':
+      return createFileStore(env.BUDGET_STORE_FILE || join(process.cwd(), 'data', 'budgets.json'));
+    case 'sqlite':
+      return createSqliteStore(env.BUDGET_STORE_FILE || join(process.cwd(), 'data', 'budgets.sqlite'));
+    default:
+      throw new Error(`Unknown BUDGET_STORE "${env.BUDGET_STORE}" (expected memory, file or sqlite)`);
+  }
+}
+
+// --- Tokens and budgets ---
+
+export function createBudgets({ store, limits, secret }) {
+  const sign = (payload) => createHmac('sha256', secret).update(payload).digest('base64url');
+  const sessionKey = (sessionId) => `session:${sessionId}`;
+  const ipKey = (ip) => `ip:${ip}`;
+  const issuedKey = (ip) => `issued:${ip}`;
+
+  function issueToken() {
+    const sessionId = randomBytes(12).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sid: sessionId, exp: Date.now() + SESSION_TTL_MS })).toString('base64url');
+    return { token: `${payload}.${sign(payload)}`, sessionId };
+  }
+
+  // Session id from a valid, unexpired token; null otherwise
+  function verifyToken(token) {
+    if (typeof token !== 'string') return null;
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    try {
+      const { sid, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return typeof sid === 'string' && exp > Date.now() ? sid : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // What the client sees: what's left of the tighter of its two budgets
+  function describe(session, ip) {
+    const requestsRemaining = Math.max(0, Math.min(
+      limits.sessionRequests - (session?.requests ?? 0),
+      limits.ipRequests - (ip?.requests ?? 0)
+    ));
+    const tokensRemaining = Math.max(0, Math.min(
+      limits.sessionTokens - (session?.tokens ?? 0),
+      limits.ipTokens - (ip?.tokens ?? 0)
+    ));
+    const ipExhausted = (ip?.requests ?? 0) >= limits.ipRequests || (ip?.tokens ?? 0) >= limits.ipTokens;
+    return {
+      requestsRemaining,
+      tokensRemaining,
+      fractionRemaining: Math.min(requestsRemaining / limits.sessionRequests, tokensRemaining / limits.sessionTokens),
+      exhausted: requestsRemaining === 0 || tokensRemaining === 0,
+      reason: ipExhausted ? 'ip' : 'session',
+      ...(ipExhausted && ip ? { retryAfterMs: Math.max(0, ip.expiresAt - Date.now()) } : {})
+    };
+  }
+
+  async function status({ sessionId, ip }) {
+    const [session, ipEntry] = await Promise.all([store.get(sessionKey(sessionId)), store.get(ipKey(ip))]);
+    return describe(session, ipEntry);
+  }
+
+  // Checks both budgets and charges one request in the same step
+  async function admit({ sessionId, ip }) {
+    const { admitted, entries: [session, ipEntry] } = await store.admit([
+      { key: sessionKey(sessionId), ttlMs: SESSION_TTL_MS, max: { requests: limits.sessionRequests, tokens: limits.sessionTokens } },
+      { key: ipKey(ip), ttlMs: IP_WINDOW_MS, max: { requests: limits.ipRequests, tokens: limits.ipTokens } }
+    ], { requests: 1 });
+    const budget = describe(session, ipEntry);
+    return { admitted, budget: admitted ? budget : { ...budget, exhausted: true } };
+  }
+
+  // Model usage is only known after the call, so tokens are charged unconditionally
+  async function charge({ sessionId, ip }, delta) {
+    const [session, ipEntry] = await Promise.all([
+      store.add(sessionKey(sessionId), delta, SESSION_TTL_MS),
+      store.add(ipKey(ip), delta, IP_WINDOW_MS)
+    ]);
+    return describe(session, ipEntry);
+  }
+
+  // A new token is a fresh session budget, so minting them is capped per IP too
+  async function admitSessionIssue(ip) {
+    const { admitted, entries: [entry] } = await store.admit(
+      [{ key: issuedKey(ip), ttlMs: IP_WINDOW_MS, max: { requests: limits.ipSessions } }],
+      { requests: 1 }
+    );
+    return { admitted, retryAfterMs: admitted || !entry ? 0 : Math.max(0, entry.expiresAt - Date.now()) };
+  }
+
+  // IP-only check for routes that don't call the provider but still need a flood guard
+  async function admitIp(ip) {
+    const { admitted } = await store.admit(
+      [{ key: ipKey(ip), ttlMs: IP_WINDOW_MS, max: { requests: limits.ipRequests } }],
+      { requests: 1 }
+    );
+    return admitted;
+  }
+
+  return { limits, issueToken, verifyToken, status, admit, charge, admitSessionIssue, admitIp };
+}
+
+// Without SESSION_SECRET tokens only last as long as the process
+export function sessionSecretFromEnv(env = process.env) {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  console.warn('SESSION_SECRET is not set; session tokens will not survive a restart');
+  return randomBytes(32).toString('hex');
+}
+
+// Total tokens from an OpenAI-style usage block
+export const usageTokens = (usage) => {
+  const total = Number(usage?.total_tokens);
+  if (Number.isFinite(total)) return total;
+  return (Number(usage?.prompt_tokens) || 0) + (Number(usage?.completion_tokens) || 0);
+};
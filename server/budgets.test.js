@@ -0,0 +1,101 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { budgetLimitsFromEnv, createBudgets, createBudgetStore, usageTokens } from './budgets.js';
+
+const LIMITS = { sessionRequests: 3, sessionTokens: 1000, ipRequests: 5, ipTokens: 5000, ipSessions: 2 };
+const budgetsWith = (limits = LIMITS, store = createBudgetStore({})) =>
+  createBudgets({ store, limits: { ...limits }, secret: 'test-secret' });
+
+describe('session tokens', () => {
+  it('verify their own signature and reject tampering', () => {
+    const budgets = budgetsWith();
+    const { token, sessionId } = budgets.issueToken();
+    expect(budgets.verifyToken(token)).toBe(sessionId);
+    expect(budgets.verifyToken(`${token}x`)).toBeNull();
+    expect(createBudgets({ store: createBudgetStore({}), limits: LIMITS, secret: 'other' }).verifyToken(token)).toBeNull();
+    expect(budgets.verifyToken(undefined)).toBeNull();
+  });
+
+  it('are capped per IP', async () => {
+    const budgets = budgetsWith();
+    expect((await budgets.admitSessionIssue('1.1.1.1')).admitted).toBe(true);
+    expect((await budgets.admitSessionIssue('1.1.1.1')).admitted).toBe(true);
+    const refused = await budgets.admitSessionIssue('1.1.1.1');
+    expect(refused.admitted).toBe(false);
+    expect(refused.retryAfterMs).toBeGreaterThan(0);
+    expect((await budgets.admitSessionIssue('2.2.2.2')).admitted).toBe(true);
+  });
+});
+
+describe('admit', () => {
+  it('charges a request and refuses once the session budget is spent', async () => {
+    const budgets = budgetsWith();
+    const caller = { sessionId: 's1', ip: '1.1.1.1' };
+    for (let i = 0; i < 3; i++) expect((await budgets.admit(caller)).admitted).toBe(true);
+    const refused = await budgets.admit(caller);
+    expect(refused.admitted).toBe(false);
+    expect(refused.budget).toMatchObject({ exhausted: true, reason: 'session', requestsRemaining: 0 });
+    expect((await budgets.status(caller)).requestsRemaining).toBe(0);
+  });
+
+  it('never lets concurrent requests past the cap', async () => {
+    const budgets = budgetsWith();
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => budgets.admit({ sessionId: 's1', ip: '1.1.1.1' }))
+    );
+    expect(results.filter(r => r.admitted)).toHaveLength(3);
+  });
+
+  it('refuses on the shared IP budget with a retry time', async () => {
+    const budgets = budgetsWith();
+    for (let i = 0; i < 5; i++) await budgets.admit({ sessionId: `s${i}`, ip: '1.1.1.1' });
+    const refused = await budgets.admit({ sessionId: 'fresh', ip: '1.1.1.1' });
+    expect(refused.admitted).toBe(false);
+    expect(refused.budget.reason).toBe('ip');
+    expect(refused.budget.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('refuses once reported usage tokens use up the budget', async () => {
+    const budgets = budgetsWith();
+    const caller = { sessionId: 's1', ip: '1.1.1.1' };
+    await budgets.admit(caller);
+    await budgets.charge(caller, { tokens: usageTokens({ prompt_tokens: 900, completion_tokens: 100 }) });
+    expect((await budgets.admit(caller)).admitted).toBe(false);
+  });
+
+  it('follows a raised IP cap without a restart', async () => {
+    const budgets = budgetsWith({ ...LIMITS, ipRequests: 1 });
+    expect(await budgets.admitIp('1.1.1.1')).toBe(true);
+    expect(await budgets.admitIp('1.1.1.1')).toBe(false);
+    budgets.limits.ipRequests = 2;
+    expect(await budgets.admitIp('1.1.1.1')).toBe(true);
+  });
+});
+
+describe('sqlite store', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'budgets-'));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('keeps counters across reopening the database', async () => {
+    const env = { BUDGET_STORE: 'sqlite', BUDGET_STORE_FILE: join(dir, 'budgets.sqlite') };
+    const caller = { sessionId: 's1', ip: '1.1.1.1' };
+    await budgetsWith(LIMITS, createBudgetStore(env)).admit(caller);
+    await budgetsWith(LIMITS, createBudgetStore(env)).charge(caller, { tokens: 250 });
+    const reopened = budgetsWith(LIMITS, createBudgetStore(env));
+    expect(await reopened.status(caller)).toMatchObject({ requestsRemaining: 2, tokensRemaining: 750 });
+  });
+});
+
+describe('budgetLimitsFromEnv', () => {
+  it('reads positive integers and falls back on junk', () => {
+    const limits = budgetLimitsFromEnv({ SESSION_MAX_REQUESTS: '10', RATE_LIMIT_MAX: '-4', SESSION_ISSUE_MAX: 'lots' });
+    expect(limits.sessionRequests).toBe(10);
+    expect(limits.ipRequests).toBe(2000);
+    expect(limits.ipSessions).toBe(60);
+  });
+  it('rejects an unknown store', () => {
+    expect(() => createBudgetStore({ BUDGET_STORE: 'redis' })).toThrow(/Unknown BUDGET_STORE/);
+  });
+});
@@ -0,0 +1,89 @@
+// Perceptual hash of a submitted frame (a 64-bit difference hash): the frame is
+// boiled down to a 9x8 grayscale grid and each bit records whether a cell is
+// brighter than its right-hand neighbour. Re-encodes, resizes and small shifts
+// of the same picture land a few bits apart, so near-identical frames from
+// different TVs can be matched by Hamming distance.
+import jpeg from 'jpeg-js';
+
+const GRID_WIDTH = 9;
+const GRID_HEIGHT = 8;
+const MAX_DECODE_MP = 4;
+const MAX_DECODE_MB = 128;
+// Below this spread of cell brightness (std dev, 0-255) a frame is flat: black
+// screens, fades and slates all hash to 0000000000000000 and would share one roast
+const MIN_LUMA_SPREAD = 3;
+
+function decodeFrame(dataUrl) {
+  const match = /^data:image\/jpeg;base64,(.+)$/.exec(dataUrl);
+  if (!match) return null; // PNG/WebP frames aren't hashed; they just skip the cache
+  try {
+    return jpeg.decode(Buffer.from(match[1], 'base64'), {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_DECODE_MP,
+      maxMemoryUsageInMB: MAX_DECODE_MB
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Average luma per grid cell, sampling every few pixels to keep big frames cheap
+function lumaGrid({ width, height, data }) {
+  const grid = new Float64Array(GRID_WIDTH * GRID_HEIGHT);
+  const step = Math.max(1, Math.floor(Math.min(width / GRID_WIDTH, height / GRID_HEIGHT) / 8));
+  for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+    const y0 = Math.floor((gy * height) / GRID_HEIGHT);
+    const y1 = Math.floor(((gy + 1) * height) / GRID_HEIGHT);
+    for (let gx = 0; gx < GRID_WIDTH; gx++) {
+      const x0 = Math.floor((gx * width) / GRID_WIDTH);
+      const x1 = Math.floor(((gx + 1) * width) / GRID_WIDTH);
+      let total = 0;
+      let count = 0;
+      for (let y = y0; y < y1; y += step) {
+        for (let x = x0; x < x1; x += step) {
+          const p = (y * width + x) * 4;
+          total += 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+          count++;
+        }
+      }
+      grid[gy * GRID_WIDTH + gx] = count ? total / count : 0;
+    }
+  }
+  return grid;
+}
+
+const spread = (grid) => {
+  const mean = grid.reduce((sum, v) => sum + v, 0) / grid.length;
+  return Math.sqrt(grid.reduce((sum, v) => sum + (v - mean) ** 2, 0) / grid.length);
+};
+
+// 16-hex-digit hash of a JPEG data URL, or null if it can't be decoded or is
+// too flat to tell apart from other frames
+export function frameHash(dataUrl) {
+  const image = decodeFrame(dataUrl);
+  if (!image || image.width < GRID_WIDTH || image.height < GRID_HEIGHT) return null;
+  const grid = lumaGrid(image);
+  if (spread(grid) < MIN_LUMA_SPREAD) return null;
+  let hash = 0n;
+  for (let y = 0; y < GRID_HEIGHT; y++) {
+    for (let x = 0; x < GRID_WIDTH - 1; x++) {
+      const i = y * GRID_WIDTH + x;
+      hash = (hash << 1n) | (grid[i] > grid[i + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+const popcount32 = (n) => {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+};
+
+// Number of differing bits between two hashes
+export function hashDistance(a, b) {
+  const high = parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16);
+  const low = parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16);
+  return popcount32(high) + popcount32(low);
+}
@@ -0,0 +1,57 @@
+import jpeg from 'jpeg-js';
+import { describe, expect, it } from 'vitest';
+import { frameHash, hashDistance } from './frameHash.js';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+
+// JPEG data URL of a frame painted pixel by pixel
+function frame(paint, quality = 90) {
+  const data = Buffer.alloc(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const p = (y * WIDTH + x) * 4;
+      data.fill(paint(x, y), p, p + 3);
+      data[p + 3] = 255;
+    }
+  }
+  const { data: encoded } = jpeg.encode({ width: WIDTH, height: HEIGHT, data }, quality);
+  return `data:image/jpeg;base64,${encoded.toString('base64')}`;
+}
+
+// Bright and dark blobs, so neighbouring cells differ both ways
+const scene = (x, y) => 128 + 100 * Math.sin(x / 5) * Math.cos(y / 7);
+
+describe('frameHash', () => {
+  it('gives the same picture at two JPEG qualities nearly the same hash', () => {
+    const a = frameHash(frame(scene, 90));
+    const b = frameHash(frame(scene, 40));
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashDistance(a, b)).toBeLessThanOrEqual(6);
+  });
+
+  it('tells different pictures apart', () => {
+    const a = frameHash(frame(scene));
+    const b = frameHash(frame((x, y) => scene(WIDTH - 1 - x, y)));
+    expect(hashDistance(a, b)).toBeGreaterThan(6);
+  });
+
+  it('skips flat frames instead of hashing them all to zero', () => {
+    expect(frameHash(frame(() => 0))).toBeNull();
+    expect(frameHash(frame(() => 128))).toBeNull();
+    expect(frameHash(frame((x, y) => 20 + ((x + y) % 2)))).toBeNull();
+  });
+
+  it('skips frames it cannot decode', () => {
+    expect(frameHash('data:image/png;base64,AAAA')).toBeNull();
+    expect(frameHash('data:image/jpeg;base64,bm90IGEganBlZw==')).toBeNull();
+  });
+});
+
+describe('hashDistance', () => {
+  it('counts differing bits across all 64', () => {
+    expect(hashDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hashDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hashDistance('8000000000000001', '0000000000000000')).toBe(2);
+  });
+});
@@ -0,0 +1,145 @@
+// The broadcast's expected ad lineup: brands with their aliases, category,
+// known celebrities and ads. Model brand guesses are fuzzy-matched onto it so
+// "Bud", "budweiser beer" and "Budweiser" all land on one canonical brand, and
+// an unsure model gets a shortlist of who's advertising tonight.
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const DEFAULT_LINEUP_FILE = join(dirname(fileURLToPath(import.meta.url)), 'lineup.json');
+// Similarity (0-1) a misspelt guess needs to count as an alias
+const MIN_SIMILARITY = 0.8;
+const MAX_PRIMED_BRANDS = 15;
+// Filler words models tack onto brand names
+const FILLER_WORDS = new Set(['the', 'inc', 'co', 'company', 'corp', 'brand', 'beer', 'soda', 'official', 'ad', 'commercial']);
+
+const normalize = (text) => text
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/['’.]/g, '')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const words = (text) => normalize(text).split(' ').filter(word => word && !FILLER_WORDS.has(word));
+
+function levenshtein(a, b) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const similarity = (a, b) => 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+const cleanList = (value) => (Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim()) : []);
+
+function parseLineup(data, source) {
+  if (!data || !Array.isArray(data.brands)) {
+    throw new Error(`Lineup must have a "brands" array: ${source}`);
+  }
+  const brands = data.brands.map((brand, i) => {
+    if (typeof brand?.id !== 'string' || typeof brand.name !== 'string') {
+      throw new Error(`Lineup brand ${i} needs an id and a name: ${source}`);
+    }
+    const ads = (Array.isArray(brand.ads) ? brand.ads : [])
+      .filter(ad => typeof ad?.id === 'string')
+      .map(ad => ({ id: ad.id, title: typeof ad.title === 'string' ? ad.title : brand.name }));
+    return {
+      id: brand.id,
+      name: brand.name,
+      aliases: cleanList(brand.aliases),
+      category: typeof brand.category === 'string' ? brand.category : '',
+      celebrities: cleanList(brand.celebrities),
+      ads: ads.length > 0 ? ads : [{ id: brand.id, title: brand.name }]
+    };
+  });
+  return { broadcast: typeof data.broadcast === 'string' ? data.broadcast : '', brands };
+}
+
+// LINEUP_FILE points at the night's lineup; without it the bundled sample is
+// used, and a missing or broken sample just turns matching off
+export function loadLineup(env = process.env) {
+  const path = env.LINEUP_FILE || DEFAULT_LINEUP_FILE;
+  try {
+    return createLineup(parseLineup(JSON.parse(readFileSync(path, 'utf8')), path));
+  } catch (err) {
+    if (env.LINEUP_FILE) throw err;
+    console.error('Lineup unavailable, brand matching off:', err.message);
+    return createLineup({ broadcast: '', brands: [] });
+  }
+}
+
+export function createLineup({ broadcast, brands }) {
+  // Every name and alias, as normalized phrases
+  const names = brands.flatMap(brand => [brand.name, ...brand.aliases].map(name => ({
+    brand,
+    phrase: words(name).join(' ')
+  }))).filter(name => name.phrase);
+
+  // Canonical brand for a free-text guess, or null if nothing is close enough
+  function matchBrand(guess) {
+    if (typeof guess !== 'string') return null;
+    const phrase = words(guess).join(' ');
+    if (!phrase) return null;
+
+    const exact = names.find(name => name.phrase === phrase);
+    if (exact) return exact.brand;
+
+    // The longest name inside the guess ("budweiser" in "budweiser clydesdales")
+    const padded = ` ${phrase} `;
+    const contained = names
+      .filter(name => padded.includes(` ${name.phrase} `))
+      .sort((a, b) => b.phrase.length - a.phrase.length)[0];
+    if (contained) return contained.brand;
+
+    // Typos: "budwiser", "dorritos"
+    let best = null;
+    for (const name of names) {
+      const score = similarity(phrase, name.phrase);
+      if (score >= MIN_SIMILARITY && (!best || score > best.score)) best = { brand: name.brand, score };
+    }
+    return best?.brand ?? null;
+  }
+
+  // Shortlist for the prompt, brands whose category comes up in the context first
+  function candidates(context = '') {
+    const padded = ` ${normalize(context)} `;
+    const mentioned = (brand) => {
+      const category = normalize(brand.category);
+      return Number(!!category && padded.includes(` ${category} `));
+    };
+    return [...brands]
+      .sort((a, b) => mentioned(b) - mentioned(a))
+      .slice(0, MAX_PRIMED_BRANDS);
+  }
+
+  return {
+    broadcast,
+    brands,
+    matchBrand,
+    candidates,
+
+    // What clients need for the tracker: no aliases, just names and ads
+    publicLineup() {
+      return {
+        broadcast,
+        brands: brands.map(({ id, name, category, ads }) => ({ id, name, category, ads }))
+      };
+    }
+  };
+}
+
+// Prompt lines listing likely advertisers, with their celebrities as hints
+export function lineupPrimer(brands) {
+  if (brands.length === 0) return '';
+  const lines = brands.map(brand => {
+    const faces = brand.celebrities.length > 0 ? `; featuring ${brand.celebrities.join(', ')}` : '';
+    return `- ${brand.name} (${brand.category || 'ad'}${faces})`;
+  });
+  return `Not sure of the brand? These are advertising tonight:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createLineup, lineupPrimer, loadLineup } from './lineup.js';
+
+const brand = (id, name, aliases = [], category = '', celebrities = []) => ({
+  id, name, aliases, category, celebrities, ads: [{ id: `${id}-1`, title: name }]
+});
+
+const BRANDS = [
+  brand('budweiser', 'Budweiser', ['Bud', 'King of Beers'], 'beer'),
+  brand('bud-light', 'Bud Light', ['Bud Lite'], 'beer'),
+  brand('doritos', 'Doritos', ['Dorito'], 'snacks', ['Jack Harlow']),
+  brand('mms', "M&M's", ['M and Ms'], 'snacks'),
+  brand('toyota', 'Toyota', [], 'auto'),
+  brand('burger-barn', 'Burger Barn', [], 'fast food')
+];
+const lineup = createLineup({ broadcast: 'Test Bowl', brands: BRANDS });
+
+describe('matchBrand', () => {
+  it('matches names and aliases whatever the case and punctuation', () => {
+    expect(lineup.matchBrand('BUDWEISER')?.id).toBe('budweiser');
+    expect(lineup.matchBrand('Bud')?.id).toBe('budweiser');
+    expect(lineup.matchBrand('M&Ms')?.id).toBe('mms');
+  });
+
+  it('ignores filler words models tack on', () => {
+    expect(lineup.matchBrand('The Budweiser beer commercial')?.id).toBe('budweiser');
+  });
+
+  it('prefers the longest name inside the guess', () => {
+    expect(lineup.matchBrand('Budweiser Clydesdales')?.id).toBe('budweiser');
+    expect(lineup.matchBrand('Bud Light Super Bowl spot')?.id).toBe('bud-light');
+  });
+
+  it('forgives small typos but not strangers', () => {
+    expect(lineup.matchBrand('budwiser')?.id).toBe('budweiser');
+    expect(lineup.matchBrand('Dorritos')?.id).toBe('doritos');
+    expect(lineup.matchBrand('Honda')).toBeNull();
+  });
+
+  it('returns null for empty and non-string guesses', () => {
+    expect(lineup.matchBrand('the beer')).toBeNull();
+    expect(lineup.matchBrand(null)).toBeNull();
+    expect(lineup.matchBrand(42)).toBeNull();
+  });
+});
+
+describe('candidates', () => {
+  it('puts brands from a mentioned category first', () => {
+    const shortlist = lineup.candidates('Kids eating snacks on a couch');
+    expect(shortlist.slice(0, 2).map(b => b.id)).toEqual(['doritos', 'mms']);
+    expect(shortlist).toHaveLength(BRANDS.length);
+  });
+
+  it('recognizes a category of more than one word', () => {
+    expect(lineup.candidates('Late-night fast food run')[0].id).toBe('burger-barn');
+    expect(lineup.candidates('Food fight, fast cars')[0].id).toBe('budweiser');
+  });
+});
+
+describe('publicLineup', () => {
+  it('leaves out aliases and celebrities', () => {
+    const [doritos] = lineup.publicLineup().brands.filter(b => b.id === 'doritos');
+    expect(doritos).toEqual({ id: 'doritos', name: 'Doritos', category: 'snacks', ads: [{ id: 'doritos-1', title: 'Doritos' }] });
+  });
+});
+
+describe('lineupPrimer', () => {
+  it('lists brands with their celebrities as hints', () => {
+    const primer = lineupPrimer([BRANDS[2], BRANDS[4]]);
+    expect(primer).toContain('- Doritos (snacks; featuring Jack Harlow)');
+    expect(primer).toContain('- Toyota (auto)');
+    expect(lineupPrimer([])).toBe('');
+  });
+});
+
+describe('loadLineup', () => {
+  it('reads the bundled sample', () => {
+    expect(loadLineup({}).matchBrand('King of Beers')?.id).toBe('budweiser');
+  });
+
+  it('throws when an explicit LINEUP_FILE is missing', () => {
+    expect(() => loadLineup({ LINEUP_FILE: '/nonexistent/lineup.json' })).toThrow();
+  });
+});
@@ -0,0 +1,259 @@
+// In-process metrics for game night: request latency, provider usage and
+// estimated cost, 429s by IP and session, parse/validation failures and
+// active sessions. Exposed as a JSON snapshot (with a per-minute series for
+// the admin charts) and in Prometheus text format. Everything resets on restart.
+
+const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+const SERIES_MINUTES = 60;
+const ACTIVE_SESSION_MS = 5 * 60 * 1000;
+const MAX_TRACKED_KEYS = 5000; // per 429 table; the quietest keys are dropped past this
+const TOP_OFFENDERS = 10;
+
+// USD per million tokens [input, output]; COST_INPUT_PER_MTOK/COST_OUTPUT_PER_MTOK override
+const MODEL_PRICES = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8]
+};
+
+export function pricingFromEnv(model, env = process.env) {
+  const [input, output] = MODEL_PRICES[model] ?? [0, 0];
+  const override = (value, fallback) => (Number.isFinite(Number(value)) && value !== undefined && value !== '' ? Number(value) : fallback);
+  return {
+    inputPerMTok: override(env.COST_INPUT_PER_MTOK, input),
+    outputPerMTok: override(env.COST_OUTPUT_PER_MTOK, output)
+  };
+}
+
+const emptyMinute = (minute) => ({ minute, requests: 0, errors: 0, latencyMs: [], tokens: 0, costUsd: 0, rateLimited: 0 });
+
+function percentile(sorted, p) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// Count into a capped Map, evicting the smallest count when full
+function bump(map, key) {
+  if (!key) return;
+  if (!map.has(key) && map.size >= MAX_TRACKED_KEYS) {
+    let smallest = null;
+    for (const [k, count] of map) if (!smallest || count < smallest[1]) smallest = [k, count];
+    map.delete(smallest[0]);
+  }
+  map.set(key, (map.get(key) || 0) + 1);
+}
+
+const top = (map) => [...map].sort((a, b) => b[1] - a[1]).slice(0, TOP_OFFENDERS).map(([key, count]) => ({ key, count }));
+
+export function createMetrics({ pricing }) {
+  const startedAt = Date.now();
+  const routes = new Map(); // route -> { count, errors, sumMs, buckets[], statuses: Map }
+  const usage = new Map(); // task -> { calls, failures, promptTokens, completionTokens, costUsd, sumMs }
+  const rateLimitedByIp = new Map();
+  const rateLimitedBySession = new Map();
+  const rateLimitedByReason = new Map();
+  const failures = new Map(); // kind -> count
+  const moderation = new Map(); // action -> count
+  const sessions = new Map(); // sessionId -> last seen
+  let series = [];
+
+  const minuteOf = (now) => Math.floor(now / 60000);
+  function currentMinute(now = Date.now()) {
+    const minute = minuteOf(now);
+    let last = series[series.length - 1];
+    if (!last || last.minute !== minute) {
+      last = emptyMinute(minute);
+      series = [...series.filter(m => m.minute > minute - SERIES_MINUTES), last];
+    }
+    return last;
+  }
+
+  const activeSessions = (now = Date.now()) => {
+    for (const [id, seenAt] of sessions) if (now - seenAt > ACTIVE_SESSION_MS) sessions.delete(id);
+    return sessions.size;
+  };
+
+  return {
+    observeRequest(route, status, ms) {
+      let entry = routes.get(route);
+      if (!entry) {
+        entry = { count: 0, errors: 0, sumMs: 0, buckets: LATENCY_BUCKETS_MS.map(() => 0), statuses: new Map() };
+        routes.set(route, entry);
+      }
+      entry.count++;
+      entry.sumMs += ms;
+      if (status >= 500) entry.errors++;
+      LATENCY_BUCKETS_MS.forEach((bound, i) => {
+        if (ms <= bound) entry.buckets[i]++;
+      });
+      bump(entry.statuses, String(status));
+      const minute = currentMinute();
+      minute.requests++;
+      if (status >= 500) minute.errors++;
+      minute.latencyMs.push(ms);
+    },
+
+    // One provider call: tokens from its OpenAI-style usage block, priced per model
+    recordUsage(task, callUsage, ms, failed = false) {
+      let entry = usage.get(task);
+      if (!entry) {
+        entry = { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, sumMs: 0 };
+        usage.set(task, entry);
+      }
+      const promptTokens = Number(callUsage?.prompt_tokens) || 0;
+      const completionTokens = Number(callUsage?.completion_tokens) || 0;
+      const costUsd = (promptTokens * pricing.inputPerMTok + completionTokens * pricing.outputPerMTok) / 1e6;
+      entry.calls++;
+      if (failed) entry.failures++;
+      entry.promptTokens += promptTokens;
+      entry.completionTokens += completionTokens;
+      entry.costUsd += costUsd;
+      entry.sumMs += ms;
+      const minute = currentMinute();
+      minute.tokens += promptTokens + completionTokens;
+      minute.costUsd += costUsd;
+    },
+
+    recordRateLimited({ ip, sessionId, reason }) {
+      bump(rateLimitedByIp, ip);
+      bump(rateLimitedBySession, sessionId);
+      bump(rateLimitedByReason, reason);
+      currentMinute().rateLimited++;
+    },
+
+    // kind: request (bad client payload), analysis, analysis-repaired, scorecard…
+    recordFailure(kind) {
+      bump(failures, kind);
+    },
+
+    recordModeration(action) {
+      bump(moderation, action);
+    },
+
+    touchSession(sessionId) {
+      sessions.set(sessionId, Date.now());
+    },
+
+    snapshot(extra = {}) {
+      const now = Date.now();
+      currentMinute(now);
+      const totals = [...usage.values()].reduce((sum, entry) => ({
+        promptTokens: sum.promptTokens + entry.promptTokens,
+        completionTokens: sum.completionTokens + entry.completionTokens,
+        costUsd: sum.costUsd + entry.costUsd
+      }), { promptTokens: 0, completionTokens: 0, costUsd: 0 });
+      return {
+        uptimeSec: Math.round((now - startedAt) / 1000),
+        activeSessions: activeSessions(now),
+        routes: Object.fromEntries([...routes].map(([route, entry]) => [route, {
+          count: entry.count,
+          errors: entry.errors,
+          avgMs: entry.count ? Math.round(entry.sumMs / entry.count) : 0,
+          statuses: Object.fromEntries(entry.statuses)
+        }])),
+        usage: { ...totals, byTask: Object.fromEntries(usage) },
+        rateLimited: {
+          byReason: Object.fromEntries(rateLimitedByReason),
+          topIps: top(rateLimitedByIp),
+          topSessions: top(rateLimitedBySession)
+        },
+        failures: Object.fromEntries(failures),
+        moderation: Object.fromEntries(moderation),
+        series: series.map(({ minute, requests, errors, latencyMs, tokens, costUsd, rateLimited }) => {
+          const sorted = [...latencyMs].sort((a, b) => a - b);
+          return {
+            at: minute * 60000,
+            requests,
+            errors,
+            p50Ms: Math.round(percentile(sorted, 0.5)),
+            p95Ms: Math.round(percentile(sorted, 0.95)),
+            tokens,
+            costUsd,
+            rateLimited
+          };
+        }),
+        ...extra
+      };
+    },
+
+    // Prometheus text exposition format
+    prometheus(extra = {}) {
+      const lines = [];
+      const metric = (name, type, help) => lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      const label = (value) => String(value).replace(/["\\\n]/g, '_');
+
+      metric('slopbowl_http_request_duration_ms', 'histogram', 'API request latency in milliseconds');
+      for (const [route, entry] of routes) {
+        LATENCY_BUCKETS_MS.forEach((bound, i) => {
+          lines.push(`slopbowl_http_request_duration_ms_bucket{route="${label(route)}",le="${bound}"} ${entry.buckets[i]}`);
+        });
+        lines.push(`slopbowl_http_request_duration_ms_bucket{route="${label(route)}",le="+Inf"} ${entry.count}`);
+        lines.push(`slopbowl_http_request_duration_ms_sum{route="${label(route)}"} ${entry.sumMs}`);
+        lines.push(`slopbowl_http_request_duration_ms_count{route="${label(route)}"} ${entry.count}`);
+      }
+      metric('slopbowl_http_responses_total', 'counter', 'API responses by route and status');
+      for (const [route, entry] of routes) {
+        for (const [status, count] of entry.statuses) {
+          lines.push(`slopbowl_http_responses_total{route="${label(route)}",status="${label(status)}"} ${count}`);
+        }
+      }
+      metric('slopbowl_provider_calls_total', 'counter', 'Provider calls by task');
+      for (const [task, entry] of usage) lines.push(`slopbowl_provider_calls_total{task="${label(task)}"} ${entry.calls}`);
+      metric('slopbowl_provider_failures_total', 'counter', 'Failed provider calls by task');
+      for (const [task, entry] of usage) lines.push(`slopbowl_provider_failures_total{task="${label(task)}"} ${entry.failures}`);
+      metric('slopbowl_provider_tokens_total', 'counter', 'Model usage tokens by task and kind');
+      for (const [task, entry] of usage) {
+        lines.push(`slopbowl_provider_tokens_total{task="${label(task)}",kind="prompt"} ${entry.promptTokens}`);
+        lines.push(`slopbowl_provider_tokens_total{task="${label(task)}",kind="completion"} ${entry.completionTokens}`);
+      }
+      metric('slopbowl_provider_cost_usd_total', 'counter', 'Estimated provider spend in USD by task');
+      for (const [task, entry] of usage) lines.push(`slopbowl_provider_cost_usd_total{task="${label(task)}"} ${entry.costUsd.toFixed(6)}`);
+      metric('slopbowl_rate_limited_total', 'counter', '429 responses by reason');
+      for (const [reason, count] of rateLimitedByReason) lines.push(`slopbowl_rate_limited_total{reason="${label(reason)}"} ${count}`);
+      metric('slopbowl_failures_total', 'counter', 'Parse and validation failures by kind');
+      for (const [kind, count] of failures) lines.push(`slopbowl_failures_total{kind="${label(kind)}"} ${count}`);
+      metric('slopbowl_moderation_decisions_total', 'counter', 'Moderation decisions by action');
+      for (const [action, count] of moderation) lines.push(`slopbowl_moderation_decisions_total{action="${label(action)}"} ${count}`);
+      metric('slopbowl_active_sessions', 'gauge', `Sessions seen in the last ${ACTIVE_SESSION_MS / 60000} minutes`);
+      lines.push(`slopbowl_active_sessions ${activeSessions()}`);
+      for (const [name, { help, value }] of Object.entries(extra)) {
+        metric(`slopbowl_${name}`, 'gauge', help);
+        lines.push(`slopbowl_${name} ${value}`);
+      }
+      return `${lines.join('\n')}\n`;
+    }
+  };
+}
+
+// Wrap a provider so every call's latency and usage is recorded under its task
+export function instrumentProvider(provider, metrics) {
+  return {
+    ...provider,
+    async complete(body, options = {}) {
+      const started = Date.now();
+      try {
+        const result = await provider.complete(body, options);
+        metrics.recordUsage(options.task || 'analysis', result.usage, Date.now() - started);
+        return result;
+      } catch (err) {
+        metrics.recordUsage(options.task || 'analysis', null, Date.now() - started, true);
+        throw err;
+      }
+    },
+    async *stream(body, options = {}) {
+      const started = Date.now();
+      let usage = null;
+      let failed = true;
+      try {
+        for await (const chunk of provider.stream(body, options)) {
+          if (chunk.usage) usage = chunk.usage;
+          yield chunk;
+        }
+        failed = false;
+      } finally {
+        metrics.recordUsage(options.task || 'analysis', usage, Date.now() - started, failed && !options.signal?.aborted);
+      }
+    }
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createMetrics, instrumentProvider, pricingFromEnv } from './metrics.js';
+
+const metricsWith = (pricing = { inputPerMTok: 1, outputPerMTok: 2 }) => createMetrics({ pricing });
+
+describe('pricingFromEnv', () => {
+  it('uses the model price unless overridden', () => {
+    expect(pricingFromEnv('gpt-4o-mini', {})).toEqual({ inputPerMTok: 0.15, outputPerMTok: 0.6 });
+    expect(pricingFromEnv('gpt-4o-mini', { COST_INPUT_PER_MTOK: '0', COST_OUTPUT_PER_MTOK: 'free' }))
+      .toEqual({ inputPerMTok: 0, outputPerMTok: 0.6 });
+    expect(pricingFromEnv('mystery-model', {})).toEqual({ inputPerMTok: 0, outputPerMTok: 0 });
+  });
+});
+
+describe('snapshot', () => {
+  it('totals usage and cost across tasks', () => {
+    const metrics = metricsWith();
+    metrics.recordUsage('analysis', { prompt_tokens: 1_000_000, completion_tokens: 500_000 }, 100);
+    metrics.recordUsage('scorecard', null, 50, true);
+    const { usage } = metrics.snapshot();
+    expect(usage).toMatchObject({ promptTokens: 1_000_000, completionTokens: 500_000, costUsd: 2 });
+    expect(usage.byTask.scorecard).toMatchObject({ calls: 1, failures: 1 });
+  });
+
+  it('counts routes, 5xx and latency percentiles', () => {
+    const metrics = metricsWith();
+    for (const ms of [10, 20, 30, 40]) metrics.observeRequest('/api/analyze', 200, ms);
+    metrics.observeRequest('/api/analyze', 502, 1000);
+    const { routes, series } = metrics.snapshot();
+    expect(routes['/api/analyze']).toEqual({ count: 5, errors: 1, avgMs: 220, statuses: { 200: 4, 502: 1 } });
+    expect(series[series.length - 1]).toMatchObject({ requests: 5, errors: 1, p50Ms: 30, p95Ms: 1000 });
+  });
+
+  it('ranks rate-limited IPs and sessions', () => {
+    const metrics = metricsWith();
+    metrics.recordRateLimited({ ip: '1.1.1.1', sessionId: 's1', reason: 'session' });
+    metrics.recordRateLimited({ ip: '2.2.2.2', reason: 'ip' });
+    metrics.recordRateLimited({ ip: '2.2.2.2', reason: 'ip' });
+    const { rateLimited } = metrics.snapshot();
+    expect(rateLimited.byReason).toEqual({ session: 1, ip: 2 });
+    expect(rateLimited.topIps).toEqual([{ key: '2.2.2.2', count: 2 }, { key: '1.1.1.1', count: 1 }]);
+    expect(rateLimited.topSessions).toEqual([{ key: 's1', count: 1 }]);
+  });
+
+  it('merges extra fields and counts active sessions', () => {
+    const metrics = metricsWith();
+    metrics.touchSession('s1');
+    metrics.touchSession('s1');
+    metrics.touchSession('s2');
+    expect(metrics.snapshot({ controls: { analysisPaused: true } })).toMatchObject({
+      activeSessions: 2,
+      controls: { analysisPaused: true }
+    });
+  });
+});
+
+describe('prometheus', () => {
+  it('writes cumulative histogram buckets and escaped labels', () => {
+    const metrics = metricsWith();
+    metrics.observeRequest('/api/"odd"', 200, 75);
+    metrics.recordFailure('analysis');
+    const text = metrics.prometheus({ cache_hits: { help: 'Cache hits', value: 3 } });
+    expect(text).toContain('slopbowl_http_request_duration_ms_bucket{route="/api/_odd_",le="50"} 0');
+    expect(text).toContain('slopbowl_http_request_duration_ms_bucket{route="/api/_odd_",le="100"} 1');
+    expect(text).toContain('slopbowl_http_request_duration_ms_bucket{route="/api/_odd_",le="+Inf"} 1');
+    expect(text).toContain('slopbowl_failures_total{kind="analysis"} 1');
+    expect(text).toContain('# TYPE slopbowl_cache_hits gauge\nslopbowl_cache_hits 3');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('instrumentProvider', () => {
+  it('records usage under the call’s task, and failures', async () => {
+    const metrics = metricsWith();
+    let fail = false;
+    const provider = instrumentProvider({
+      async complete() {
+        if (fail) throw new Error('down');
+        return { content: '{}', usage: { prompt_tokens: 10, completion_tokens: 5 } };
+      }
+    }, metrics);
+    await provider.complete({}, { task: 'moderation' });
+    fail = true;
+    await expect(provider.complete({})).rejects.toThrow('down');
+    const { byTask } = metrics.snapshot().usage;
+    expect(byTask.moderation).toMatchObject({ calls: 1, failures: 0, promptTokens: 10, completionTokens: 5 });
+    expect(byTask.analysis).toMatchObject({ calls: 1, failures: 1 });
+  });
+});
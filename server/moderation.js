@@ -0,0 +1,203 @@
+// Brand-safety pass over everything the model writes before it reaches a
+// bubble, share card or tweet. Three checks: a configurable blocklist and
+// topic rules, claims about the real people in the ad, and optionally a
+// second opinion from the provider. A flagged line is regenerated once, then
+// swapped for a safe stock line; every decision is logged.
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { parseModelContent } from './prompt.js';
+import { personaPrompt } from './personas.js';
+
+const DEFAULT_RULES_FILE = join(dirname(fileURLToPath(import.meta.url)), 'moderation.json');
+const CLASSIFIER_MAX_TOKENS = 60;
+const REWRITE_MAX_TOKENS = 120;
+const MAX_LINE_CHARS = 280;
+
+// Used when a rewrite is flagged too; every persona can say these
+const SAFE_FALLBACKS = [
+  'I had a joke for this one. Legal took it.',
+  "Moving on before I say something I'll regret.",
+  "Let's just say: it's an ad, and it's on.",
+  'No comment. The ad speaks for itself.'
+];
+
+// Words that point at a person on screen; with a claim pattern they make a claim about them
+const PERSON_WORDS = /\b(he|she|he's|she's|him|his|her|celebrity|celeb|actor|actress|spokes(man|woman|person)|quarterback|this guy|this lady|the star)\b/i;
+// Capitalized two-word names ("Jane Doe"), minus ones that are brands
+const NAME_PATTERN = /\b[A-Z][a-z]+(?:\s[A-Z][a-z]+)+\b/g;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function compileRules(list, fallbackCategory) {
+  return (Array.isArray(list) ? list : [])
+    .filter(rule => typeof rule?.id === 'string' && typeof rule.pattern === 'string')
+    .map(rule => ({ id: rule.id, category: rule.category || fallbackCategory, pattern: new RegExp(rule.pattern, 'i') }));
+}
+
+// MODERATION_RULES swaps the bundled rules file; MODERATION_BLOCKLIST_FILE adds
+// a plain word list (one term per line) such as a maintained slur list
+export function loadModerationRules(env = process.env) {
+  const path = env.MODERATION_RULES || DEFAULT_RULES_FILE;
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  const terms = Array.isArray(data.blocklist) ? data.blocklist.filter(term => typeof term === 'string') : [];
+  if (env.MODERATION_BLOCKLIST_FILE) {
+    terms.push(...readFileSync(env.MODERATION_BLOCKLIST_FILE, 'utf8').split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#')));
+  }
+  const blocklist = terms.length > 0
+    ? { id: 'blocklist', category: 'blocklist', pattern: new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'i') }
+    : null;
+  return {
+    rules: [...(blocklist ? [blocklist] : []), ...compileRules(data.rules, 'sensitive')],
+    claims: compileRules(data.claims, 'real-person-claim')
+  };
+}
+
+function buildClassifierRequest(text) {
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `You are a brand-safety reviewer for a family-friendly comedy app that roasts TV ads. Flag a line if it contains slurs, hate, sexual content, graphic violence, self-harm, cruelty toward real people, or factual claims about a real person's private life (crimes, health, relationships, sexuality, money). Jokes about the ad itself are fine.
+Respond with a JSON object: {"safe": true, "category": "", "reason": ""}`
+      },
+      { role: 'user', content: text }
+    ],
+    max_tokens: CLASSIFIER_MAX_TOKENS,
+    temperature: 0,
+    response_format: { type: 'json_object' }
+  };
+}
+
+function buildRewriteRequest(text, persona, heat, reasons) {
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `${personaPrompt(persona, heat)}
+
+One of your lines was pulled for brand safety (${reasons.join(', ')}). Rewrite it as a single fresh line about the AD itself: keep the joke's target on the marketing, say nothing about real people's private lives, and stay family-friendly.
+Respond with a JSON object: {"commentary": "the new line"}`
+      },
+      { role: 'user', content: text }
+    ],
+    max_tokens: REWRITE_MAX_TOKENS,
+    temperature: persona.temperature,
+    response_format: { type: 'json_object' }
+  };
+}
+
+// MODERATION_CLASSIFIER=provider adds the second-pass classifier (off by default)
+export function createModerator({ rules, claims }, { provider, people = [], brands = [], env = process.env, log = console.log, onDecision = () => {} } = {}) {
+  const classifier = (env.MODERATION_CLASSIFIER || 'off').toLowerCase();
+  if (!['off', 'provider'].includes(classifier)) {
+    throw new Error(`Unknown MODERATION_CLASSIFIER "${env.MODERATION_CLASSIFIER}" (expected off or provider)`);
+  }
+  const classify = classifier === 'provider';
+  const knownPeople = people.map(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i'));
+  const brandNames = new Set(brands.map(name => name.toLowerCase()));
+  let fallbackIndex = 0;
+
+  const mentionsPerson = (sentence) =>
+    PERSON_WORDS.test(sentence)
+    || knownPeople.some(pattern => pattern.test(sentence))
+    || (sentence.match(NAME_PATTERN) || []).some(name => !brandNames.has(name.toLowerCase()));
+
+  // Rule checks only: cheap enough to run on every streamed chunk
+  function check(text) {
+    if (!text) return [];
+    const reasons = rules.filter(rule => rule.pattern.test(text)).map(rule => `${rule.category}:${rule.id}`);
+    for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+      if (!mentionsPerson(sentence)) continue;
+      const claim = claims.find(rule => rule.pattern.test(sentence));
+      if (claim) reasons.push(`real-person-claim:${claim.id}`);
+    }
+    return [...new Set(reasons)];
+  }
+
+  // Rules, then the classifier if it's on. Resolves to { reasons, usage }.
+  async function review(text) {
+    const reasons = check(text);
+    if (reasons.length > 0 || !classify || !text) return { reasons, usage: null };
+    try {
+      const { content, usage } = await provider.complete(buildClassifierRequest(text), { task: 'moderation' });
+      const verdict = parseModelContent(content);
+      if (verdict && verdict.safe === false) {
+        return { reasons: [`classifier:${String(verdict.category || 'unsafe').slice(0, 40)}`], usage };
+      }
+      return { reasons: [], usage };
+    } catch (err) {
+      // A classifier outage shouldn't silence the show; the rules already passed
+      console.error('Moderation classifier error:', err);
+      return { reasons: [], usage: null };
+    }
+  }
+
+  const nextFallback = () => SAFE_FALLBACKS[fallbackIndex++ % SAFE_FALLBACKS.length];
+
+  const record = (field, action, reasons, context) => {
+    log(JSON.stringify({ event: 'moderation', field, action, reasons, persona: context.persona?.id, sessionId: context.sessionId }));
+    onDecision({ field, action, reasons });
+  };
+
+  async function rewrite(text, reasons, context) {
+    try {
+      const { content, usage } = await provider.complete(
+        buildRewriteRequest(text, context.persona, context.heat, reasons),
+        { sessionId: context.sessionId, task: 'rewrite' }
+      );
+      const parsed = parseModelContent(content);
+      const line = typeof parsed?.commentary === 'string' ? parsed.commentary.trim().slice(0, MAX_LINE_CHARS) : '';
+      return { line, usage };
+    } catch (err) {
+      console.error('Moderation rewrite error:', err);
+      return { line: '', usage: null };
+    }
+  }
+
+  // Moderate a validated frame analysis. Commentary gets one rewrite before the
+  // fallback; the theory and one-liner are just blanked (the client has its own
+  // stand-ins for both). Resolves to { analysis, usages }.
+  async function moderateAnalysis(analysis, context) {
+    const usages = [];
+    const result = { ...analysis };
+
+    const first = await review(analysis.commentary);
+    usages.push(first.usage);
+    if (first.reasons.length === 0) {
+      record('commentary', 'pass', [], context);
+    } else {
+      const { line, usage } = await rewrite(analysis.commentary, first.reasons, context);
+      usages.push(usage);
+      const second = line ? await review(line) : { reasons: ['empty-rewrite'], usage: null };
+      usages.push(second.usage);
+      if (second.reasons.length === 0) {
+        result.commentary = line;
+        record('commentary', 'regenerated', first.reasons, context);
+      } else {
+        result.commentary = nextFallback();
+        record('commentary', 'fallback', [...first.reasons, ...second.reasons], context);
+      }
+    }
+
+    for (const field of ['theory', 'adSummaryOneLiner']) {
+      if (!analysis[field]) continue;
+      const { reasons, usage } = await review(analysis[field]);
+      usages.push(usage);
+      if (reasons.length > 0) result[field] = '';
+      record(field, reasons.length > 0 ? 'blanked' : 'pass', reasons, context);
+    }
+    return { analysis: result, usages: usages.filter(Boolean) };
+  }
+
+  // Rules-only check for other generated text (verdicts, published reels): the
+  // text, or the fallback (null when the caller rejects flagged text outright)
+  function moderateText(text, fallback, field, context = {}) {
+    const reasons = check(text);
+    const action = reasons.length === 0 ? 'pass' : fallback === null ? 'rejected' : 'fallback';
+    record(field, action, reasons, context);
+    return reasons.length > 0 ? fallback : text;
+  }
+
+  return { check, moderateAnalysis, moderateText };
+}
@@ -0,0 +1,129 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { createModerator, loadModerationRules } from './moderation.js';
+import { getPersona } from './personas.js';
+
+const RULES = loadModerationRules({});
+const context = { persona: getPersona('snarky'), heat: 3, sessionId: 's1' };
+
+// A provider that answers each call with the next canned reply
+function scriptedProvider(replies) {
+  const calls = [];
+  return {
+    calls,
+    async complete(request, options) {
+      calls.push(options.task);
+      const reply = replies.shift();
+      if (reply instanceof Error) throw reply;
+      return { content: JSON.stringify(reply), usage: { total_tokens: 10 } };
+    }
+  };
+}
+
+const moderatorWith = (provider, options = {}) => {
+  const decisions = [];
+  const moderator = createModerator(RULES, {
+    provider, env: {}, log: () => {}, onDecision: decision => decisions.push(decision), ...options
+  });
+  return { moderator, decisions };
+};
+
+describe('check', () => {
+  const { moderator } = moderatorWith(scriptedProvider([]), { people: ['Jane Doe'], brands: ['State Farm'] });
+
+  it('flags topic rules', () => {
+    expect(moderator.check('A massacre of good taste.')).toEqual(['sensitive:violence']);
+  });
+
+  it('flags claims only when they are about a person', () => {
+    expect(moderator.check('Jane Doe was arrested last week.')).toEqual(['real-person-claim:crime']);
+    expect(moderator.check('He clearly needs the money.')).toEqual(['real-person-claim:money']);
+    expect(moderator.check('This truck needs the money more than I do.')).toEqual([]);
+    expect(moderator.check('State Farm went bankrupt on jokes.')).toEqual([]);
+  });
+
+  it('passes empty text', () => {
+    expect(moderator.check('')).toEqual([]);
+  });
+});
+
+describe('moderateAnalysis', () => {
+  it('passes clean commentary without calling the provider', async () => {
+    const provider = scriptedProvider([]);
+    const { moderator, decisions } = moderatorWith(provider);
+    const { analysis } = await moderator.moderateAnalysis({ commentary: 'Another truck on a mountain.' }, context);
+    expect(analysis.commentary).toBe('Another truck on a mountain.');
+    expect(provider.calls).toEqual([]);
+    expect(decisions).toEqual([{ field: 'commentary', action: 'pass', reasons: [] }]);
+  });
+
+  it('regenerates a flagged line once', async () => {
+    const provider = scriptedProvider([{ commentary: 'That truck is parked on a cliff for no reason.' }]);
+    const { moderator, decisions } = moderatorWith(provider);
+    const { analysis, usages } = await moderator.moderateAnalysis({ commentary: 'He was convicted of fraud.' }, context);
+    expect(analysis.commentary).toBe('That truck is parked on a cliff for no reason.');
+    expect(usages).toHaveLength(1);
+    expect(decisions[0]).toEqual({ field: 'commentary', action: 'regenerated', reasons: ['real-person-claim:crime'] });
+  });
+
+  it('falls back to a stock line when the rewrite is flagged or fails', async () => {
+    const { moderator, decisions } = moderatorWith(scriptedProvider([{ commentary: 'She is an addict.' }, new Error('down')]));
+    const first = await moderator.moderateAnalysis({ commentary: 'He is a criminal.' }, context);
+    const second = await moderator.moderateAnalysis({ commentary: 'He is a criminal.' }, context);
+    expect(decisions.map(d => d.action)).toEqual(['fallback', 'fallback']);
+    expect(first.analysis.commentary).not.toBe(second.analysis.commentary);
+  });
+
+  it('blanks a flagged theory and one-liner', async () => {
+    const { moderator, decisions } = moderatorWith(scriptedProvider([]));
+    const { analysis } = await moderator.moderateAnalysis(
+      { commentary: 'Bold move.', theory: 'Pure murder of a jingle.', adSummaryOneLiner: 'A fine truck ad.' },
+      context
+    );
+    expect(analysis.theory).toBe('');
+    expect(analysis.adSummaryOneLiner).toBe('A fine truck ad.');
+    expect(decisions.map(d => `${d.field}:${d.action}`)).toEqual(['commentary:pass', 'theory:blanked', 'adSummaryOneLiner:pass']);
+  });
+
+  it('asks the classifier when it is on, and shrugs off its outages', async () => {
+    const provider = scriptedProvider([{ safe: false, category: 'cruelty' }, { commentary: 'Nice hat.' }, { safe: true }, new Error('down')]);
+    const { moderator } = moderatorWith(provider, { env: { MODERATION_CLASSIFIER: 'provider' } });
+    const flagged = await moderator.moderateAnalysis({ commentary: 'Mean but rule-clean.' }, context);
+    expect(flagged.analysis.commentary).toBe('Nice hat.');
+    expect(provider.calls).toEqual(['moderation', 'rewrite', 'moderation']);
+    const outage = await moderator.moderateAnalysis({ commentary: 'Bold move.' }, context);
+    expect(outage.analysis.commentary).toBe('Bold move.');
+  });
+});
+
+describe('moderateText', () => {
+  const { moderator, decisions } = moderatorWith(scriptedProvider([]));
+
+  it('returns the text, the fallback, or null when rejecting', () => {
+    expect(moderator.moderateText('Solid ad.', 'safe', 'verdict')).toBe('Solid ad.');
+    expect(moderator.moderateText('So much heroin energy.', 'safe', 'verdict')).toBe('safe');
+    expect(moderator.moderateText('So much heroin energy.', null, 'reel')).toBeNull();
+    expect(decisions.map(d => d.action)).toEqual(['pass', 'fallback', 'rejected']);
+  });
+});
+
+describe('loadModerationRules', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'moderation-'));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('adds a plain-text blocklist, skipping comments', () => {
+    const file = join(dir, 'blocklist.txt');
+    writeFileSync(file, '# house list\nflurb\n\nzorp.com\n');
+    const strict = createModerator(loadModerationRules({ MODERATION_BLOCKLIST_FILE: file }), { env: {}, log: () => {} });
+    expect(strict.check('Total flurb energy.')).toEqual(['blocklist:blocklist']);
+    expect(strict.check('Visit zorpXcom')).toEqual([]);
+    expect(strict.check('# house list')).toEqual([]);
+    expect(moderatorWith(scriptedProvider([])).moderator.check('Total flurb energy.')).toEqual([]);
+  });
+
+  it('rejects an unknown classifier setting', () => {
+    expect(() => createModerator(RULES, { env: { MODERATION_CLASSIFIER: 'maybe' } })).toThrow(/MODERATION_CLASSIFIER/);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { applyBannedPhrases, getPersona, personaPrompt, publicPersonas, resolveHeat } from './personas.js';
+import { applyPersonaRulesToAnalysis } from './prompt.js';
+import { applyPersonaRules } from '../src/personas.ts';
+import { TROPE_CATALOG } from '../src/tropes.ts';
+
+const snarky = getPersona('snarky');
+const kidSafe = getPersona('kid-safe');
+
+describe('applyBannedPhrases', () => {
+  it('strips a banned opener and recapitalizes', () => {
+    expect(applyBannedPhrases(snarky, 'Ah, another truck on a mountain.')).toBe('Another truck on a mountain.');
+  });
+
+  it('drops only the offending sentence', () => {
+    expect(applyBannedPhrases(snarky, 'Nothing says freedom like debt. Bold move.')).toBe('Bold move.');
+  });
+
+  it('returns the fallback when every sentence is dropped', () => {
+    expect(applyBannedPhrases(kidSafe, 'That beer looks stupid.')).toBe('');
+    expect(applyBannedPhrases(kidSafe, 'That beer looks stupid.', 'Ooh!')).toBe('Ooh!');
+  });
+
+  it('leaves clean text and non-strings alone', () => {
+    expect(applyBannedPhrases(kidSafe, 'What a shiny car!')).toBe('What a shiny car!');
+    expect(applyBannedPhrases(kidSafe, null)).toBeNull();
+  });
+});
+
+describe('applyPersonaRulesToAnalysis', () => {
+  it('swaps fully banned commentary for the persona fallback and blanks the one-liner', () => {
+    const analysis = applyPersonaRulesToAnalysis(
+      { commentary: 'That beer looks stupid.', adSummaryOneLiner: 'Dumb beer ad.' },
+      kidSafe
+    );
+    expect(analysis.commentary).toBe(kidSafe.fallbackLine);
+    expect(analysis.adSummaryOneLiner).toBe('');
+  });
+});
+
+describe('resolveHeat', () => {
+  it('clamps to the persona maximum and defaults bad input', () => {
+    expect(resolveHeat(kidSafe, 5)).toBe(2);
+    expect(resolveHeat(snarky, 9)).toBe(5);
+    expect(resolveHeat(snarky, Number.NaN)).toBe(3);
+  });
+});
+
+describe('personaPrompt', () => {
+  it('spells out the banned phrases and heat level', () => {
+    const prompt = personaPrompt(kidSafe, 5);
+    expect(prompt).toContain('No grown-up topics or insults');
+    expect(prompt).toContain('HEAT 2/5');
+  });
+});
+
+describe('client-side persona rules', () => {
+  const clientKidSafe = publicPersonas().find(p => p.id === 'kid-safe');
+
+  it('match the server for the same line', () => {
+    for (const line of ['That beer looks stupid.', 'Majestic horses. Super Bowl tradition, beer optional.']) {
+      expect(applyPersonaRules(clientKidSafe, line)).toBe(applyBannedPhrases(kidSafe, line));
+    }
+  });
+
+  it('keep every stock trope line kid-safe', () => {
+    const banned = new RegExp(kidSafe.bannedPhrases[0].pattern, 'i');
+    for (const line of TROPE_CATALOG.flatMap(trope => trope.responses)) {
+      expect(applyPersonaRules(clientKidSafe, line)).not.toMatch(banned);
+    }
+  });
+});
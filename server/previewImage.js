@@ -0,0 +1,218 @@
+// Social preview cards rendered as PNG with no native dependencies: a 5x7
+// pixel font drawn into an RGB buffer and encoded with node's zlib.
+import { deflateSync } from 'zlib';
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+const COLORS = {
+  background: [10, 10, 10],
+  scanline: [0, 0, 0],
+  text: [240, 240, 240],
+  muted: [136, 136, 136],
+  red: [255, 51, 51],
+  slime: [138, 255, 0]
+};
+
+// 5x7 glyphs, one string per row
+const GLYPHS = {
+  A: ['.###.', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+  B: ['####.', '#...#', '#...#', '####.', '#...#', '#...#', '####.'],
+  C: ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+  D: ['####.', '#...#', '#...#', '#...#', '#...#', '#...#', '####.'],
+  E: ['#####', '#....', '#....', '####.', '#....', '#....', '#####'],
+  F: ['#####', '#....', '#....', '####.', '#....', '#....', '#....'],
+  G: ['.###.', '#...#', '#....', '#.###', '#...#', '#...#', '.####'],
+  H: ['#...#', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+  I: ['.###.', '..#..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  J: ['..###', '...#.', '...#.', '...#.', '...#.', '#..#.', '.##..'],
+  K: ['#...#', '#..#.', '#.#..', '##...', '#.#..', '#..#.', '#...#'],
+  L: ['#....', '#....', '#....', '#....', '#....', '#....', '#####'],
+  M: ['#...#', '##.##', '#.#.#', '#.#.#', '#...#', '#...#', '#...#'],
+  N: ['#...#', '#...#', '##..#', '#.#.#', '#..##', '#...#', '#...#'],
+  O: ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  P: ['####.', '#...#', '#...#', '####.', '#....', '#....', '#....'],
+  Q: ['.###.', '#...#', '#...#', '#...#', '#.#.#', '#..#.', '.##.#'],
+  R: ['####.', '#...#', '#...#', '####.', '#.#..', '#..#.', '#...#'],
+  S: ['.####', '#....', '#....', '.###.', '....#', '....#', '####.'],
+  T: ['#####', '..#..', '..#..', '..#..', '..#..', '..#..', '..#..'],
+  U: ['#...#', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  V: ['#...#', '#...#', '#...#', '#...#', '#...#', '.#.#.', '..#..'],
+  W: ['#...#', '#...#', '#...#', '#.#.#', '#.#.#', '#.#.#', '.#.#.'],
+  X: ['#...#', '#...#', '.#.#.', '..#..', '.#.#.', '#...#', '#...#'],
+  Y: ['#...#', '#...#', '.#.#.', '..#..', '..#..', '..#..', '..#..'],
+  Z: ['#####', '....#', '...#.', '..#..', '.#...', '#....', '#####'],
+  0: ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+  1: ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  2: ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  3: ['#####', '...#.', '..#..', '...#.', '....#', '#...#', '.###.'],
+  4: ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  5: ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  6: ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+  7: ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+  8: ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+  9: ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+  ' ': ['.....', '.....', '.....', '.....', '.....', '.....', '.....'],
+  '.': ['.....', '.....', '.....', '.....', '.....', '.##..', '.##..'],
+  ',': ['.....', '.....', '.....', '.....', '.##..', '..#..', '.#...'],
+  '!': ['..#..', '..#..', '..#..', '..#..', '..#..', '.....', '..#..'],
+  '?': ['.###.', '#...#', '....#', '...#.', '..#..', '.....', '..#..'],
+  "'": ['..#..', '..#..', '.#...', '.....', '.....', '.....', '.....'],
+  '"': ['.#.#.', '.#.#.', '.....', '.....', '.....', '.....', '.....'],
+  '\u00b7': ['.....', '.....', '.....', '..#..', '.....', '.....', '.....'],
+  '-': ['.....', '.....', '.....', '#####', '.....', '.....', '.....'],
+  ':': ['.....', '.##..', '.##..', '.....', '.##..', '.##..', '.....'],
+  ';': ['.....', '.##..', '.##..', '.....', '.##..', '..#..', '.#...'],
+  '/': ['.....', '....#', '...#.', '..#..', '.#...', '#....', '.....'],
+  '#': ['.#.#.', '.#.#.', '#####', '.#.#.', '#####', '.#.#.', '.#.#.'],
+  '&': ['.##..', '#..#.', '#.#..', '.#...', '#.#.#', '#..#.', '.##.#'],
+  '$': ['..#..', '.####', '#.#..', '.###.', '..#.#', '####.', '..#..'],
+  '%': ['##...', '##..#', '...#.', '..#..', '.#...', '#..##', '...##'],
+  '(': ['...#.', '..#..', '.#...', '.#...', '.#...', '..#..', '...#.'],
+  ')': ['.#...', '..#..', '...#.', '...#.', '...#.', '..#..', '.#...'],
+  '+': ['.....', '..#..', '..#..', '#####', '..#..', '..#..', '.....'],
+  '*': ['.....', '#.#.#', '.###.', '#####', '.###.', '#.#.#', '.....'],
+  '@': ['.###.', '#...#', '#.###', '#.#.#', '#.###', '#....', '.###.'],
+  '=': ['.....', '.....', '#####', '.....', '#####', '.....', '.....']
+};
+
+// Fold typographic punctuation onto the glyphs we have
+const normalize = (text) => text
+  .toUpperCase()
+  .replace(/[\u2018\u2019`]/g, "'")
+  .replace(/[\u201c\u201d]/g, '"')
+  .replace(/[\u2013\u2014]/g, '-')
+  .replace(/\u2026/g, '...')
+  .replace(/\u2122/g, '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '');
+
+const GLYPH_ADVANCE = 6; // 5 columns plus one of spacing
+
+function createCanvas(width, height) {
+  const pixels = Buffer.alloc(width * height * 3);
+  const fillRect = (x, y, w, h, [r, g, b]) => {
+    for (let row = Math.max(0, y); row < Math.min(height, y + h); row++) {
+      for (let col = Math.max(0, x); col < Math.min(width, x + w); col++) {
+        const i = (row * width + col) * 3;
+        pixels[i] = r;
+        pixels[i + 1] = g;
+        pixels[i + 2] = b;
+      }
+    }
+  };
+  const drawText = (text, x, y, scale, color) => {
+    let cursor = x;
+    for (const ch of normalize(text)) {
+      const glyph = GLYPHS[ch] || GLYPHS['?'];
+      glyph.forEach((row, gy) => {
+        for (let gx = 0; gx < row.length; gx++) {
+          if (row[gx] === '#') fillRect(cursor + gx * scale, y + gy * scale, scale, scale, color);
+        }
+      });
+      cursor += GLYPH_ADVANCE * scale;
+    }
+    return cursor;
+  };
+  return { width, height, pixels, fillRect, drawText };
+}
+
+// Greedy word wrap to a character budget, truncating with an ellipsis
+function wrap(text, maxChars, maxLines) {
+  const words = normalize(text).split(/\s+/).filter(Boolean);
+  const lines = [];
+  let line = '';
+  for (const word of words) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word.slice(0, maxChars);
+    if (lines.length === maxLines) break;
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  if (lines.length === maxLines && lines.join(' ').length < normalize(text).trim().length) {
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 3)}...`;
+  }
+  return lines;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function encodePng({ width, height, pixels }) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor RGB
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 3 + 1)] = 0; // no filter
+    pixels.copy(raw, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Branded 1200x630 card: logo, headline, quote and footer
+export function renderPreviewCard({ headline, quote, footer }) {
+  const canvas = createCanvas(CARD_WIDTH, CARD_HEIGHT);
+  canvas.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT, COLORS.background);
+
+  const margin = 60;
+  const after = canvas.drawText('SLOP', margin, margin, 10, COLORS.text);
+  canvas.drawText('BOWL', after + 30, margin, 10, COLORS.red);
+
+  const headlineScale = 7;
+  const headlineChars = Math.floor((CARD_WIDTH - margin * 2) / (GLYPH_ADVANCE * headlineScale));
+  canvas.drawText(wrap(headline, headlineChars, 1)[0] || '', margin, 170, headlineScale, COLORS.slime);
+
+  const quoteScale = 5;
+  const quoteChars = Math.floor((CARD_WIDTH - margin * 2) / (GLYPH_ADVANCE * quoteScale));
+  wrap(quote, quoteChars, 5).forEach((line, i) => {
+    canvas.drawText(line, margin, 250 + i * 50, quoteScale, COLORS.text);
+  });
+
+  canvas.drawText(footer, margin, CARD_HEIGHT - margin - 21, 3, COLORS.muted);
+
+  // Scanlines to match the app
+  for (let y = 0; y < CARD_HEIGHT; y += 3) {
+    for (let x = 0; x < CARD_WIDTH; x++) {
+      const i = (y * CARD_WIDTH + x) * 3;
+      canvas.pixels[i] = Math.round(canvas.pixels[i] * 0.8);
+      canvas.pixels[i + 1] = Math.round(canvas.pixels[i + 1] * 0.8);
+      canvas.pixels[i + 2] = Math.round(canvas.pixels[i + 2] * 0.8);
+    }
+  }
+
+  return encodePng(canvas);
+}
@@ -0,0 +1,122 @@
+// Prompt construction for frame analysis — lives server-side so clients can't
+// repurpose the endpoint as a general-purpose GPT proxy.
+import { getPersona, personaPrompt, resolveHeat, applyBannedPhrases } from './personas.js';
+
+export const ANALYSIS_MAX_TOKENS = 200;
+
+// Caps on what the client is allowed to send
+export const MAX_FRAME_CHARS = 2 * 1024 * 1024; // ~1.5MB of JPEG once base64-decoded
+export const MAX_CONTEXT_CHARS = 500;
+export const MAX_HEARD_CHARS = 300;
+export const MAX_SESSION_ID_CHARS = 64;
+
+// Validate the client payload; returns { error } or the cleaned fields
+export function parseAnalyzeRequest(body) {
+  const { frame, sessionId, context } = body || {};
+
+  if (typeof frame !== 'string' || !/^data:image\/(jpeg|png|webp);base64,/.test(frame)) {
+    return { error: 'frame must be a base64 image data URL' };
+  }
+  if (frame.length > MAX_FRAME_CHARS) {
+    return { error: 'frame too large' };
+  }
+  if (typeof sessionId !== 'string' || !sessionId || sessionId.length > MAX_SESSION_ID_CHARS) {
+    return { error: 'sessionId is required' };
+  }
+
+  const previous = typeof context?.previous === 'string'
+    ? context.previous.slice(0, MAX_CONTEXT_CHARS)
+    : '';
+
+  // Recent transcript of the TV's audio; flattened so it can't pose as prompt structure
+  const heard = typeof context?.heard === 'string'
+    ? context.heard.replace(/["\s]+/g, ' ').trim().slice(-MAX_HEARD_CHARS)
+    : '';
+
+  // How sure the model was of the brand on the previous frame; null on the first
+  const confidence = ['guessing', 'suspicious', 'certain'].includes(context?.confidence) ? context.confidence : null;
+
+  const sceneCut = context?.sceneCut === true;
+  const persona = getPersona(typeof context?.persona === 'string' ? context.persona : undefined);
+  const heat = resolveHeat(persona, Number(context?.heat));
+
+  return { frame, sessionId, persona, context: { previous, heard, confidence, sceneCut, heat } };
+}
+
+// Build the chat completion body for one frame; the provider fills in the model.
+// primer is an optional list of likely brands, for when the model is unsure.
+export function buildAnalysisRequest({ frame, persona, context }, { primer = '' } = {}) {
+  const messages = [
+    {
+      role: 'system',
+      content: `${personaPrompt(persona, context.heat)}
+
+You're watching TV ads frame by frame. Share your take on what you see, in character.
+
+Previous observations: ${context.previous || 'Just tuned in.'}${context.heard ? `
+
+Audio heard from the TV just now: "${context.heard}"
+If it names the brand, use that as your brandGuess. You can quote a line of it back in your commentary.` : ''}${primer ? `
+
+${primer}` : ''}${context.sceneCut ? `
+
+HINT: The picture just hard-cut to a very different shot. That may be a new ad, or just an edit within the same one — judge by brand, product and style.` : ''}
+
+Respond with a JSON object:
+{
+  "commentary": "Your in-character take on this frame",
+  "theory": "Your current theory of what this ad is selling",
+  "brandGuess": "Brand name if visible or suspected, null otherwise",
+  "confidence": "guessing|suspicious|certain",
+  "tropesDetected": ["array of advertising tropes you notice"],
+  "isNewAd": false,
+  "adSummaryOneLiner": ""
+}
+
+IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous observations (different brand, completely different setting/style/product), set "isNewAd": true and provide "adSummaryOneLiner" — a single sharp, memorable one-liner summing up the PREVIOUS ad in ${persona.name}'s voice. Otherwise keep isNewAd false and adSummaryOneLiner empty.`
+    },
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'image_url',
+          image_url: {
+            url: frame,
+            detail: 'low'
+          }
+        },
+        {
+          type: 'text',
+          text: 'What do you see?'
+        }
+      ]
+    }
+  ];
+
+  return {
+    messages,
+    max_tokens: ANALYSIS_MAX_TOKENS,
+    temperature: persona.temperature,
+    response_format: { type: 'json_object' }
+  };
+}
+
+// Parse the model's JSON reply, tolerating markdown fences; null if it isn't an object
+export function parseModelContent(content) {
+  const stripped = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+  try {
+    const parsed = JSON.parse(stripped);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Apply the persona's banned-phrase rules to a parsed analysis
+export function applyPersonaRulesToAnalysis(analysis, persona) {
+  return {
+    ...analysis,
+    commentary: applyBannedPhrases(persona, analysis.commentary, persona.fallbackLine),
+    adSummaryOneLiner: applyBannedPhrases(persona, analysis.adSummaryOneLiner)
+  };
+}
@@ -0,0 +1,215 @@
+// Vision providers behind /api/analyze. Each provider takes a chat completion
+// body (minus the model) and resolves to { content, usage }, or streams it as
+// { delta } chunks followed by a final { usage }.
+import { readFileSync } from 'fs';
+import { readEventStream } from './streaming.js';
+
+export class ProviderError extends Error {
+  constructor(message, status = 502) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+// Any endpoint speaking the OpenAI chat completions protocol
+function createChatCompletionsProvider({ name, baseUrl, apiKey, model, requiresKey }) {
+  async function post(body, signal) {
+    const headers = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    let response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (err) {
+      throw new ProviderError(`Failed to reach ${name} provider: ${err.message}`, 502);
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new ProviderError(`${name} error ${response.status}: ${error}`, response.status === 429 ? 429 : 502);
+    }
+    return response;
+  }
+
+  return {
+    name,
+    model,
+    configured: !requiresKey || !!apiKey,
+    async complete(body) {
+      const response = await post({ ...body, model });
+      const data = await response.json();
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        usage: data.usage || null
+      };
+    },
+    async *stream(body, { signal } = {}) {
+      const response = await post({ ...body, model, stream: true, stream_options: { include_usage: true } }, signal);
+      for await (const data of readEventStream(response.body)) {
+        if (data === '[DONE]') break;
+        let chunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield { delta };
+        if (chunk.usage) yield { usage: chunk.usage };
+      }
+    }
+  };
+}
+
+// Built-in script: three ads, four frames each. The first two frames of each
+// new ad flag isNewAd so the client's confirmation window sees a real break.
+const MOCK_SCRIPT = [
+  ['Fizzy Cola', 'soda', ['slow motion', 'beach'], [
+    'Slow-motion fizz. Because regular-speed sugar water was too honest.',
+    'A beach party nobody was invited to. Hydration via vibes.',
+    'That polar bear has an agent and it shows.',
+    'Logo at the end, as if we had any doubt.'
+  ]],
+  ['Apex Trucks', 'pickup truck', ['mountain', 'slow motion'], [
+    'A truck on a mountain. Bold choice for a vehicle that lives in a Costco lot.',
+    'Gravel spray in 4K. The mud was flown in first class.',
+    'Gruff narrator detected. His voice has towing capacity.',
+    'Payload stats in tiny font. Feelings in giant font.'
+  ]],
+  ['CloudNest', 'an app, probably', ['celebrity', 'white background'], [
+    'A celebrity in a white void explaining the cloud. Still no idea.',
+    'Three product shots and zero product. Impressive restraint.',
+    'The celebrity is smiling at a phone like it owes them money.',
+    'Download now, understand never.'
+  ]]
+];
+
+function loadMockFixtures(path) {
+  if (path) {
+    const fixtures = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(fixtures) || fixtures.length === 0) {
+      throw new Error(`MOCK_FIXTURES must be a non-empty JSON array: ${path}`);
+    }
+    return fixtures;
+  }
+
+  const fixtures = [];
+  MOCK_SCRIPT.forEach(([brand, product, tropes, lines], adIndex) => {
+    lines.forEach((commentary, frameIndex) => {
+      const isNewAd = adIndex > 0 && frameIndex < 2;
+      fixtures.push({
+        commentary,
+        theory: `This is selling ${product}`,
+        brandGuess: frameIndex === 0 ? null : brand,
+        confidence: frameIndex < 2 ? 'suspicious' : 'certain',
+        tropesDetected: tropes,
+        isNewAd,
+        adSummaryOneLiner: isNewAd ? `${MOCK_SCRIPT[adIndex - 1][0]}: the ad equivalent of a participation trophy.` : ''
+      });
+    });
+  });
+  return fixtures;
+}
+
+// Stable pseudo-scores derived from the request text, so the same ad always scores the same
+function mockScorecard(body) {
+  const text = JSON.stringify(body.messages?.[body.messages.length - 1]?.content || '');
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  const score = (shift) => 1 + ((hash >>> shift) % 10);
+  return JSON.stringify({
+    originality: score(0),
+    celebrityOveruse: score(4),
+    tropeDensity: score(8),
+    whatWasItSelling: score(12),
+    overall: score(16),
+    verdict: 'The judges have seen worse. The judges have also seen better.',
+    // Only asked for when the ad came without a one-liner
+    ...(body.messages?.[0]?.content?.includes('"oneLiner"') ? { oneLiner: 'It ended before it could explain itself.' } : {})
+  });
+}
+
+// Pull the commentary string back out of a broken reply; anything else stays broken
+function mockRepair(body) {
+  const reply = body.messages?.[body.messages.length - 1]?.content || '';
+  const match = /"commentary"\s*:\s*"([^"]{1,280})"/.exec(reply);
+  return JSON.stringify(match ? { commentary: match[1] } : {});
+}
+
+// Moderation stand-ins: the classifier passes everything, rewrites are stock
+const MOCK_VERDICT = JSON.stringify({ safe: true, category: '', reason: '' });
+const MOCK_REWRITE = JSON.stringify({ commentary: "Let's keep this about the ad: it sure is one." });
+
+const MOCK_USAGE = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+const MOCK_CHUNK_CHARS = 8;
+const MOCK_CHUNK_DELAY_MS = 15;
+
+// Deterministic offline provider: each session steps through the fixtures in order
+function createMockProvider({ fixturesPath }) {
+  const fixtures = loadMockFixtures(fixturesPath);
+  const cursors = new Map(); // sessionId -> next fixture index
+
+  const next = (sessionId) => {
+    const index = cursors.get(sessionId) || 0;
+    cursors.set(sessionId, index + 1);
+    const fixture = fixtures[index % fixtures.length];
+    return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    configured: true,
+    async complete(body, { sessionId = 'default', task = 'analysis' } = {}) {
+      const content = task === 'scorecard' ? mockScorecard(body)
+        : task === 'repair' ? mockRepair(body)
+        : task === 'moderation' ? MOCK_VERDICT
+        : task === 'rewrite' ? MOCK_REWRITE
+        : next(sessionId);
+      return { content, usage: { ...MOCK_USAGE } };
+    },
+    // Same fixture, dripped out in small chunks to exercise streaming clients
+    async *stream(_body, { sessionId = 'default' } = {}) {
+      const content = next(sessionId);
+      for (let i = 0; i < content.length; i += MOCK_CHUNK_CHARS) {
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+        yield { delta: content.slice(i, i + MOCK_CHUNK_CHARS) };
+      }
+      yield { usage: { ...MOCK_USAGE } };
+    }
+  };
+}
+
+// Pick the backend from the environment: VISION_PROVIDER=openai|local|mock
+export function createProvider(env = process.env) {
+  const kind = (env.VISION_PROVIDER || 'openai').toLowerCase();
+
+  switch (kind) {
+    case 'openai':
+      return createChatCompletionsProvider({
+        name: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || 'gpt-4o-mini',
+        requiresKey: true
+      });
+    case 'local':
+      return createChatCompletionsProvider({
+        name: 'local',
+        baseUrl: env.LOCAL_VISION_URL || 'http://localhost:11434/v1',
+        apiKey: env.LOCAL_VISION_API_KEY,
+        model: env.LOCAL_VISION_MODEL || 'llava',
+        requiresKey: false
+      });
+    case 'mock':
+      return createMockProvider({ fixturesPath: env.MOCK_FIXTURES });
+    default:
+      throw new Error(`Unknown VISION_PROVIDER "${kind}" (expected openai, local or mock)`);
+  }
+}
@@ -0,0 +1,219 @@
+// Shareable roast permalinks: a published single ad or whole reel gets a
+// short id, a read-only page at /r/:id and a preview card for social embeds.
+// Storage is pluggable; records hold a hash of the deletion token, never the token.
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, writeFile, unlink } from 'fs/promises';
+import { join } from 'path';
+
+const ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ID_LENGTH = 8;
+const ID_PATTERN = /^[a-zA-Z0-9]{8}$/;
+const MAX_ADS = 60;
+const MAX_TITLE_CHARS = 80;
+const MAX_LINE_CHARS = 300;
+const MAX_TROPES = 8;
+const MEMORY_STORE_MAX = 5000;
+
+const cleanText = (value, max) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+const hashToken = (token) => createHash('sha256').update(token).digest();
+
+export const isReelId = (id) => typeof id === 'string' && ID_PATTERN.test(id);
+
+function generateId() {
+  let id = '';
+  for (let i = 0; i < ID_LENGTH; i++) id += ID_ALPHABET[randomInt(ID_ALPHABET.length)];
+  return id;
+}
+
+function cleanAd(ad) {
+  const oneLiner = cleanText(ad?.oneLiner, MAX_LINE_CHARS);
+  if (!oneLiner) return null;
+  const overall = Number(ad.scorecard?.overall);
+  return {
+    brandGuess: cleanText(ad.brandGuess, 80) || 'Unknown Brand',
+    oneLiner,
+    tropes: (Array.isArray(ad.tropes) ? ad.tropes : []).map(t => cleanText(t, 60)).filter(Boolean).slice(0, MAX_TROPES),
+    scorecard: Number.isFinite(overall)
+      ? { overall: Math.min(10, Math.max(1, Math.round(overall))), verdict: cleanText(ad.scorecard.verdict, MAX_LINE_CHARS) }
+      : null
+  };
+}
+
+// Validate the client payload; returns { error } or the cleaned reel
+export function parseReelRequest(body) {
+  const ads = (Array.isArray(body?.ads) ? body.ads : []).slice(0, MAX_ADS).map(cleanAd).filter(Boolean);
+  if (ads.length === 0) return { error: 'ads must include at least one roast' };
+  return {
+    reel: {
+      title: cleanText(body.title, MAX_TITLE_CHARS) || (ads.length === 1 ? ads[0].brandGuess : 'Roast Reel'),
+      ads
+    }
+  };
+}
+
+// Files under REEL_STORE_DIR, one JSON document per reel
+function createFileStore(dir) {
+  const pathFor = (id) => join(dir, `${id}.json`);
+  let ready = null;
+  return {
+    name: 'file',
+    async put(record) {
+      ready ??= mkdir(dir, { recursive: true });
+      await ready;
+      await writeFile(pathFor(record.id), JSON.stringify(record), { flag: 'wx' });
+    },
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(pathFor(id), 'utf8'));
+      } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async delete(id) {
+      try {
+        await unlink(pathFor(id));
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+      }
+    }
+  };
+}
+
+// Process-local store for development; oldest reels drop off past the cap
+function createMemoryStore() {
+  const records = new Map();
+  return {
+    name: 'memory',
+    async put(record) {
+      if (records.has(record.id)) throw Object.assign(new Error('Duplicate reel id'), { code: 'EEXIST' });
+      records.set(record.id, record);
+      if (records.size > MEMORY_STORE_MAX) records.delete(records.keys().next().value);
+    },
+    async get(id) {
+      return records.get(id) ?? null;
+    },
+    async delete(id) {
+      records.delete(id);
+    }
+  };
+}
+
+export function createReelStore(env = process.env) {
+  const kind = (env.REEL_STORE || 'file').toLowerCase();
+  switch (kind) {
+    case 'file':
+      return createFileStore(env.REEL_STORE_DIR || join(process.cwd(), 'data', 'reels'));
+    case 'memory':
+      return createMemoryStore();
+    default:
+      throw new Error(`Unknown REEL_STORE "${env.REEL_STORE}" (expected file or memory)`);
+  }
+}
+
+// Store a parsed reel; returns the id and the one-time deletion token
+export async function publishReel(store, reel) {
+  const deleteToken = randomBytes(24).toString('base64url');
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const id = generateId();
+    try {
+      await store.put({
+        id,
+        createdAt: Date.now(),
+        deleteTokenHash: hashToken(deleteToken).toString('hex'),
+        ...reel
+      });
+      return { id, deleteToken };
+    } catch (err) {
+      if (err.code !== 'EEXIST') throw err;
+    }
+  }
+  throw new Error('Could not allocate a reel id');
+}
+
+export function canDeleteReel(record, token) {
+  if (typeof token !== 'string' || !token) return false;
+  const expected = Buffer.from(record.deleteTokenHash, 'hex');
+  return timingSafeEqual(expected, hashToken(token));
+}
+
+// What the API hands back; the token hash stays on the server
+export const publicReel = ({ id, createdAt, title, ads }) => ({ id, createdAt, title, ads });
+
+// Headline and quote for the preview card and meta tags
+export function reelPreview(reel) {
+  if (reel.ads.length === 1) {
+    const [ad] = reel.ads;
+    return { headline: ad.brandGuess, quote: ad.oneLiner };
+  }
+  const best = reel.ads.reduce((top, ad) => ((ad.scorecard?.overall ?? 0) > (top.scorecard?.overall ?? 0) ? ad : top), reel.ads[0]);
+  return { headline: `${reel.title} · ${reel.ads.length} ads`, quote: best.oneLiner };
+}
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Read-only page; crawlers read the meta tags, people get the roasts
+export function renderReelPage(reel, { pageUrl, imageUrl }) {
+  const { headline, quote } = reelPreview(reel);
+  const title = `SLOPBOWL — ${headline}`;
+  const ads = reel.ads.map(ad => `
+      <li class="ad">
+        <div class="brand">${escapeHtml(ad.brandGuess)}${ad.scorecard ? ` <span class="score">${ad.scorecard.overall}/10</span>` : ''}</div>
+        <blockquote>${escapeHtml(ad.oneLiner)}</blockquote>
+        ${ad.scorecard?.verdict ? `<p class="verdict">${escapeHtml(ad.scorecard.verdict)}</p>` : ''}
+        ${ad.tropes.length ? `<p class="tropes">${ad.tropes.map(escapeHtml).join(' · ')}</p>` : ''}
+      </li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(title)}</title>
+  <meta name="description" content="${escapeHtml(quote)}" />
+  <meta property="og:type" content="article" />
+  <meta property="og:site_name" content="SLOPBOWL" />
+  <meta property="og:title" content="${escapeHtml(title)}" />
+  <meta property="og:description" content="${escapeHtml(quote)}" />
+  <meta property="og:url" content="${escapeHtml(pageUrl)}" />
+  <meta property="og:image" content="${escapeHtml(imageUrl)}" />
+  <meta property="og:image:width" content="1200" />
+  <meta property="og:image:height" content="630" />
+  <meta name="twitter:card" content="summary_large_image" />
+  <meta name="twitter:title" content="${escapeHtml(title)}" />
+  <meta name="twitter:description" content="${escapeHtml(quote)}" />
+  <meta name="twitter:image" content="${escapeHtml(imageUrl)}" />
+  <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
+  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Space+Mono:wght@400;700&family=Bebas+Neue&display=swap" />
+  <style>
+    body { margin: 0; background: #0a0a0a; color: #f0f0f0; font-family: 'Space Mono', monospace; }
+    main { max-width: 640px; margin: 0 auto; padding: 2rem 1.25rem 4rem; }
+    h1 { font-family: 'Bebas Neue', sans-serif; font-size: 3rem; letter-spacing: 0.05em; margin: 0 0 0.25rem; }
+    h1 span { color: #ff3333; }
+    h2 { color: #8aff00; font-size: 1.1rem; margin: 0 0 2rem; text-transform: uppercase; }
+    ol { list-style: none; padding: 0; margin: 0; }
+    .ad { border: 2px solid #222; padding: 1rem 1.25rem; margin-bottom: 1rem; }
+    .brand { color: #8aff00; font-weight: 700; text-transform: uppercase; }
+    .score { color: #ff3333; margin-left: 0.5rem; }
+    blockquote { margin: 0.5rem 0; font-size: 1.1rem; line-height: 1.5; }
+    .verdict, .tropes { color: #888; font-size: 0.85rem; margin: 0.25rem 0 0; }
+    .cta { display: inline-block; margin-top: 1.5rem; padding: 0.9rem 1.5rem; background: #8aff00; color: #0a0a0a; font-weight: 700; text-decoration: none; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>SLOP<span>BOWL</span></h1>
+    <h2>${escapeHtml(reel.title)}</h2>
+    <ol>${ads}
+    </ol>
+    <a class="cta" href="/">ROAST THE NEXT AD BREAK</a>
+  </main>
+</body>
+</html>`;
+}
@@ -0,0 +1,113 @@
+// Cache of recent frame analyses, keyed by perceptual frame hash plus a scope
+// (persona and heat). At peak the same ad is on thousands of TVs at once, so a
+// frame that's close enough (by Hamming distance) to one we've already roasted
+// is served from here instead of the provider. Each entry collects a few
+// distinct model replies before it starts serving, and hits rotate through
+// them so repeat viewers don't all get the same line.
+//
+// Only what the frame itself shows is kept (the roast and its tropes). Ad
+// boundaries, summaries, theories and brand guesses depend on what each viewer
+// saw before, so a hit never replays them.
+import { hashDistance } from './frameHash.js';
+
+const DEFAULTS = {
+  size: 1000,
+  maxDistance: 6, // of 64 bits
+  variants: 3,
+  ttlMs: 6 * 60 * 60 * 1000
+};
+
+const nonNegativeInt = (value, fallback) => {
+  const n = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+};
+
+export function cacheOptionsFromEnv(env = process.env) {
+  return {
+    size: nonNegativeInt(env.RESPONSE_CACHE_SIZE, DEFAULTS.size),
+    maxDistance: nonNegativeInt(env.RESPONSE_CACHE_DISTANCE, DEFAULTS.maxDistance),
+    variants: Math.max(1, nonNegativeInt(env.RESPONSE_CACHE_VARIANTS, DEFAULTS.variants)),
+    ttlMs: DEFAULTS.ttlMs
+  };
+}
+
+const frameIntrinsic = ({ commentary, tropesDetected }) => ({ commentary, tropesDetected });
+
+// A full analysis from a cached variant: the viewer's own confidence carries
+// over and nothing claims a new ad or a brand
+export const replayAnalysis = (cached, confidence) => ({
+  ...cached,
+  theory: '',
+  brandGuess: null,
+  brandId: null,
+  confidence: confidence ?? 'guessing',
+  isNewAd: false,
+  adSummaryOneLiner: ''
+});
+
+// RESPONSE_CACHE_SIZE=0 turns the cache off
+export function createResponseCache({ size, maxDistance, variants, ttlMs } = DEFAULTS) {
+  const entries = new Map(); // `${scope}:${hash}` -> { hash, scope, variants, served, expiresAt }, oldest first
+  let hits = 0;
+  let misses = 0;
+
+  const touch = (key, entry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+  };
+
+  // Exact hash first, then the nearest hash within maxDistance
+  function find(hash, scope, now = Date.now()) {
+    const exactKey = `${scope}:${hash}`;
+    let best = null;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        continue;
+      }
+      if (entry.scope !== scope) continue;
+      const distance = key === exactKey ? 0 : hashDistance(entry.hash, hash);
+      if (distance <= maxDistance && (!best || distance < best.distance)) best = { key, entry, distance };
+      if (distance === 0) break;
+    }
+    return best;
+  }
+
+  return {
+    enabled: size > 0,
+
+    // A cached analysis for this frame, once its entry has enough variants to rotate through
+    lookup(hash, scope) {
+      const found = hash ? find(hash, scope) : null;
+      if (!found || found.entry.variants.length < variants) {
+        misses++;
+        return null;
+      }
+      hits++;
+      touch(found.key, found.entry);
+      const entry = found.entry;
+      return entry.variants[entry.served++ % entry.variants.length];
+    },
+
+    // Add a fresh model reply, as a new variant of a near match or a new entry
+    store(hash, scope, analysis) {
+      if (!hash || size === 0) return;
+      const variant = frameIntrinsic(analysis);
+      const found = find(hash, scope);
+      if (found) {
+        const entry = found.entry;
+        if (entry.variants.length < variants && !entry.variants.some(v => v.commentary === variant.commentary)) {
+          entry.variants.push(variant);
+        }
+        touch(found.key, entry);
+        return;
+      }
+      entries.set(`${scope}:${hash}`, { hash, scope, variants: [variant], served: 0, expiresAt: Date.now() + ttlMs });
+      while (entries.size > size) entries.delete(entries.keys().next().value);
+    },
+
+    stats() {
+      return { entries: entries.size, hits, misses };
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { cacheOptionsFromEnv, createResponseCache, replayAnalysis } from './responseCache.js';
+
+const OPTIONS = { size: 10, maxDistance: 6, variants: 2, ttlMs: 60_000 };
+const HASH = '0f0f0f0f0f0f0f0f';
+const NEAR = '0f0f0f0f0f0f0f0e'; // one bit off
+const FAR = 'f0f0f0f0f0f0f0f0';
+
+const analysis = (commentary, extra = {}) => ({
+  commentary,
+  theory: 'Truck ad',
+  brandGuess: 'Ram',
+  brandId: 'ram',
+  confidence: 'certain',
+  tropesDetected: ['truck on a mountain'],
+  isNewAd: true,
+  adSummaryOneLiner: 'Trucks, but louder.',
+  ...extra
+});
+
+describe('createResponseCache', () => {
+  it('only serves once an entry has enough distinct variants, then rotates', () => {
+    const cache = createResponseCache(OPTIONS);
+    cache.store(HASH, 'snarky:3', analysis('One.'));
+    expect(cache.lookup(HASH, 'snarky:3')).toBeNull();
+    cache.store(NEAR, 'snarky:3', analysis('One.'));
+    expect(cache.lookup(HASH, 'snarky:3')).toBeNull();
+    cache.store(NEAR, 'snarky:3', analysis('Two.'));
+    expect(cache.lookup(NEAR, 'snarky:3').commentary).toBe('One.');
+    expect(cache.lookup(HASH, 'snarky:3').commentary).toBe('Two.');
+    expect(cache.stats()).toEqual({ entries: 1, hits: 2, misses: 2 });
+  });
+
+  it('keeps only what the frame itself shows', () => {
+    const cache = createResponseCache({ ...OPTIONS, variants: 1 });
+    cache.store(HASH, 'snarky:3', analysis('One.'));
+    expect(cache.lookup(HASH, 'snarky:3')).toEqual({ commentary: 'One.', tropesDetected: ['truck on a mountain'] });
+  });
+
+  it('keeps scopes and distant frames apart', () => {
+    const cache = createResponseCache({ ...OPTIONS, variants: 1 });
+    cache.store(HASH, 'snarky:3', analysis('One.'));
+    expect(cache.lookup(HASH, 'snarky:5')).toBeNull();
+    expect(cache.lookup(HASH, 'hype:3')).toBeNull();
+    expect(cache.lookup(FAR, 'snarky:3')).toBeNull();
+  });
+
+  it('evicts the least recently used entry and ignores unhashed frames', () => {
+    const cache = createResponseCache({ ...OPTIONS, size: 1, variants: 1 });
+    cache.store(null, 'snarky:3', analysis('None.'));
+    cache.store(HASH, 'snarky:3', analysis('One.'));
+    cache.store(FAR, 'snarky:3', analysis('Two.'));
+    expect(cache.lookup(HASH, 'snarky:3')).toBeNull();
+    expect(cache.lookup(FAR, 'snarky:3').commentary).toBe('Two.');
+  });
+
+  it('stores nothing when turned off', () => {
+    const cache = createResponseCache({ ...OPTIONS, size: 0, variants: 1 });
+    cache.store(HASH, 'snarky:3', analysis('One.'));
+    expect(cache.enabled).toBe(false);
+    expect(cache.stats().entries).toBe(0);
+  });
+});
+
+describe('replayAnalysis', () => {
+  it('never claims a new ad, summary or brand and keeps the viewer’s confidence', () => {
+    const cache = createResponseCache({ ...OPTIONS, variants: 1 });
+    cache.store(HASH, 'snarky:3', analysis('One.'));
+    expect(replayAnalysis(cache.lookup(HASH, 'snarky:3'), 'suspicious')).toEqual({
+      commentary: 'One.',
+      tropesDetected: ['truck on a mountain'],
+      theory: '',
+      brandGuess: null,
+      brandId: null,
+      confidence: 'suspicious',
+      isNewAd: false,
+      adSummaryOneLiner: ''
+    });
+    expect(replayAnalysis({ commentary: 'One.', tropesDetected: [] }, null).confidence).toBe('guessing');
+  });
+});
+
+describe('cacheOptionsFromEnv', () => {
+  it('allows zero to turn the cache off but keeps at least one variant', () => {
+    const options = cacheOptionsFromEnv({ RESPONSE_CACHE_SIZE: '0', RESPONSE_CACHE_VARIANTS: '0' });
+    expect(options.size).toBe(0);
+    expect(options.variants).toBe(1);
+    expect(cacheOptionsFromEnv({}).maxDistance).toBe(6);
+  });
+});
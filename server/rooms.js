@@ -0,0 +1,254 @@
+// Watch-party rooms: one host device runs the capture/analyze loop and
+// publishes what it shows; viewers follow along over SSE, react and vote.
+import { randomBytes, randomInt } from 'crypto';
+import { sendEvent } from './streaming.js';
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O/1/I
+const CODE_LENGTH = 5;
+// How long a room survives its host disconnecting (reloads, flaky wifi)
+const HOST_GRACE_MS = 30 * 1000;
+// Rooms with no host activity at all are closed after this
+const ROOM_IDLE_MS = 15 * 60 * 1000;
+const MAX_ROOMS = 500;
+const MAX_ROOMS_PER_IP = 3;
+const MAX_VIEWERS = 200;
+// Every stream gets a voter token; this caps how many a room hands out in total
+const MAX_VOTER_TOKENS = 2000;
+const REACTION_COOLDOWN_MS = 500;
+// Comment pings keep proxies from dropping idle SSE connections
+const KEEPALIVE_MS = 25 * 1000;
+const MAX_RECENT_BUBBLES = 10;
+const MAX_TEXT_CHARS = 300;
+
+export const ROOM_REACTIONS = ['😂', '🔥', '💀', '🙄', '👏', '🤮'];
+const ACCENTS = ['green', 'black', 'red', 'gold', 'blue', 'purple'];
+
+const cleanText = (value, max = MAX_TEXT_CHARS) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+// Host-published events are validated down to exactly what viewers render
+function sanitizeHostEvent(event) {
+  switch (event?.type) {
+    case 'bubble': {
+      const text = cleanText(event.text);
+      if (!text) return null;
+      return {
+        type: 'bubble',
+        id: cleanText(event.id, 64) || `${Date.now()}`,
+        text,
+        position: event.position === 'right' ? 'right' : 'left',
+        accent: ACCENTS.includes(event.accent) ? event.accent : 'black'
+      };
+    }
+    case 'tropes':
+      return {
+        type: 'tropes',
+        tropes: (Array.isArray(event.tropes) ? event.tropes : []).map(t => cleanText(t, 60)).filter(Boolean).slice(0, 12)
+      };
+    case 'ads':
+      return {
+        type: 'ads',
+        ads: (Array.isArray(event.ads) ? event.ads : []).slice(-50).map(ad => ({
+          id: cleanText(ad?.id, 64),
+          brandGuess: cleanText(ad?.brandGuess, 80),
+          oneLiner: cleanText(ad?.oneLiner)
+        }))
+      };
+    case 'status':
+      return { type: 'status', isAnalyzing: event.isAnalyzing === true };
+    default:
+      return null;
+  }
+}
+
+export function createRoomRegistry() {
+  const rooms = new Map(); // code -> room
+  const lastReaction = new Map(); // client key -> timestamp
+
+  function generateCode() {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      let code = '';
+      for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+      if (!rooms.has(code)) return code;
+    }
+    throw new Error('Could not allocate a room code');
+  }
+
+  function broadcast(room, event, data) {
+    for (const res of room.viewers) sendEvent(res, event, data);
+    if (room.hostStream) sendEvent(room.hostStream, event, data);
+  }
+
+  function snapshot(room) {
+    return {
+      code: room.code,
+      bubbles: room.bubbles,
+      tropes: room.tropes,
+      ads: room.ads,
+      isAnalyzing: room.isAnalyzing,
+      votes: Object.fromEntries([...room.votes].map(([lineId, voters]) => [lineId, tally(voters)])),
+      viewers: room.viewers.size
+    };
+  }
+
+  function tally(voters) {
+    let up = 0;
+    let down = 0;
+    for (const vote of voters.values()) {
+      if (vote > 0) up++;
+      else down++;
+    }
+    return { up, down };
+  }
+
+  function close(room, reason) {
+    if (!rooms.has(room.code)) return;
+    rooms.delete(room.code);
+    clearTimeout(room.graceTimer);
+    broadcast(room, 'closed', { reason });
+    for (const res of room.viewers) res.end();
+    room.hostStream?.end();
+  }
+
+  // Sweep rooms whose host went quiet without a clean disconnect
+  setInterval(() => {
+    const now = Date.now();
+    for (const room of rooms.values()) {
+      if (now - room.lastHostActivity > ROOM_IDLE_MS) close(room, 'idle');
+    }
+    for (const [key, at] of lastReaction) {
+      if (now - at > REACTION_COOLDOWN_MS) lastReaction.delete(key);
+    }
+  }, 60 * 1000).unref();
+
+  // Votes are only taken from tokens this room minted for one of its streams
+  function mintVoterToken(room) {
+    if (room.voterTokens.size >= MAX_VOTER_TOKENS) return null;
+    const token = randomBytes(16).toString('base64url');
+    room.voterTokens.add(token);
+    return token;
+  }
+
+  return {
+    // { code, hostToken }, or { error: 'full' | 'too-many' } when the server or
+    // this IP already has as many rooms as it may
+    create(ownerIp) {
+      if (rooms.size >= MAX_ROOMS) return { error: 'full' };
+      let owned = 0;
+      for (const room of rooms.values()) if (room.ownerIp === ownerIp) owned++;
+      if (owned >= MAX_ROOMS_PER_IP) return { error: 'too-many' };
+
+      const room = {
+        code: generateCode(),
+        hostToken: randomBytes(24).toString('base64url'),
+        ownerIp,
+        createdAt: Date.now(),
+        lastHostActivity: Date.now(),
+        graceTimer: null,
+        hostStream: null,
+        viewers: new Set(),
+        bubbles: [],
+        tropes: [],
+        ads: [],
+        isAnalyzing: false,
+        voterTokens: new Set(),
+        votes: new Map() // lineId -> Map(voterToken -> 1 | -1)
+      };
+      rooms.set(room.code, room);
+      return { code: room.code, hostToken: room.hostToken };
+    },
+
+    get(code) {
+      return rooms.get(String(code || '').toUpperCase()) || null;
+    },
+
+    isHost(room, token) {
+      return typeof token === 'string' && token === room.hostToken;
+    },
+
+    // Attach an SSE response; the host's own stream doubles as its presence
+    // signal. Each stream's snapshot carries its own voter token.
+    subscribe(room, res, { asHost = false } = {}) {
+      if (!asHost && room.viewers.size >= MAX_VIEWERS) return false;
+
+      if (asHost) {
+        room.hostStream?.end();
+        room.hostStream = res;
+        room.lastHostActivity = Date.now();
+        clearTimeout(room.graceTimer);
+        room.graceTimer = null;
+      } else {
+        room.viewers.add(res);
+      }
+      sendEvent(res, 'snapshot', { ...snapshot(room), voterToken: mintVoterToken(room) });
+      broadcast(room, 'presence', { viewers: room.viewers.size });
+
+      const keepalive = setInterval(() => res.write(': ping\n\n'), KEEPALIVE_MS);
+      res.on('close', () => {
+        clearInterval(keepalive);
+        if (asHost) {
+          if (room.hostStream !== res) return;
+          room.hostStream = null;
+          room.graceTimer = setTimeout(() => close(room, 'host-left'), HOST_GRACE_MS);
+        } else {
+          room.viewers.delete(res);
+          broadcast(room, 'presence', { viewers: room.viewers.size });
+        }
+      });
+      return true;
+    },
+
+    publish(room, rawEvent) {
+      const event = sanitizeHostEvent(rawEvent);
+      if (!event) return false;
+      room.lastHostActivity = Date.now();
+
+      switch (event.type) {
+        case 'bubble':
+          room.bubbles = [...room.bubbles, { id: event.id, text: event.text, position: event.position, accent: event.accent }]
+            .slice(-MAX_RECENT_BUBBLES);
+          break;
+        case 'tropes':
+          room.tropes = event.tropes;
+          break;
+        case 'ads':
+          room.ads = event.ads;
+          break;
+        case 'status':
+          room.isAnalyzing = event.isAnalyzing;
+          break;
+      }
+      const { type, ...data } = event;
+      broadcast(room, type, data);
+      return true;
+    },
+
+    react(room, emoji, clientKey) {
+      if (!ROOM_REACTIONS.includes(emoji)) return false;
+      const now = Date.now();
+      if (now - (lastReaction.get(clientKey) || 0) < REACTION_COOLDOWN_MS) return false;
+      lastReaction.set(clientKey, now);
+      broadcast(room, 'reaction', { emoji, at: Date.now() });
+      return true;
+    },
+
+    // One vote per voter token per line; voting the same way again clears it
+    vote(room, lineId, voterToken, value) {
+      const id = cleanText(lineId, 64);
+      if (!id || !room.voterTokens.has(voterToken) || (value !== 1 && value !== -1)) return null;
+      if (!room.bubbles.some(b => b.id === id) && !room.votes.has(id)) return null;
+
+      const voters = room.votes.get(id) || new Map();
+      if (voters.get(voterToken) === value) voters.delete(voterToken);
+      else voters.set(voterToken, value);
+      room.votes.set(id, voters);
+
+      const counts = tally(voters);
+      broadcast(room, 'votes', { lineId: id, ...counts });
+      return counts;
+    },
+
+    close(room) {
+      close(room, 'host-ended');
+    }
+  };
+}
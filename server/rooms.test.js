@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { createRoomRegistry } from './rooms.js';
+
+// Just enough of an SSE response to subscribe and read events back
+function fakeStream() {
+  const res = new EventEmitter();
+  res.chunks = [];
+  res.write = (chunk) => res.chunks.push(chunk);
+  res.end = () => res.emit('close');
+  res.events = (name) => res.chunks
+    .filter(chunk => chunk.startsWith(`event: ${name}\n`))
+    .map(chunk => JSON.parse(chunk.split('data: ')[1]));
+  return res;
+}
+
+describe('create', () => {
+  it('caps how many rooms one IP can run at once', () => {
+    const rooms = createRoomRegistry();
+    for (let i = 0; i < 3; i++) expect(rooms.create('1.1.1.1').code).toMatch(/^[A-Z2-9]{5}$/);
+    expect(rooms.create('1.1.1.1')).toEqual({ error: 'too-many' });
+    expect(rooms.create('2.2.2.2').hostToken).toBeTruthy();
+  });
+
+  it('frees the slot once a room is closed', () => {
+    const rooms = createRoomRegistry();
+    const created = [1, 2, 3].map(() => rooms.create('1.1.1.1'));
+    rooms.close(rooms.get(created[0].code));
+    expect(rooms.create('1.1.1.1').code).toBeTruthy();
+  });
+});
+
+describe('subscribe', () => {
+  it('sends recent bubbles and a fresh voter token in each snapshot', () => {
+    const rooms = createRoomRegistry();
+    const room = rooms.get(rooms.create('1.1.1.1').code);
+    rooms.publish(room, { type: 'bubble', id: 'b1', text: 'Bold move.', position: 'left', accent: 'gold' });
+
+    const first = fakeStream();
+    const second = fakeStream();
+    rooms.subscribe(room, first);
+    rooms.subscribe(room, second);
+    const [snapshot] = first.events('snapshot');
+    expect(snapshot.bubbles).toEqual([{ id: 'b1', text: 'Bold move.', position: 'left', accent: 'gold' }]);
+    expect(snapshot.voterToken).toBeTruthy();
+    expect(second.events('snapshot')[0].voterToken).not.toBe(snapshot.voterToken);
+  });
+});
+
+describe('vote', () => {
+  const setup = () => {
+    const rooms = createRoomRegistry();
+    const room = rooms.get(rooms.create('1.1.1.1').code);
+    rooms.publish(room, { type: 'bubble', id: 'b1', text: 'Bold move.' });
+    const stream = fakeStream();
+    rooms.subscribe(room, stream);
+    return { rooms, room, token: stream.events('snapshot')[0].voterToken };
+  };
+
+  it('only counts tokens the room handed out', () => {
+    const { rooms, room, token } = setup();
+    expect(rooms.vote(room, 'b1', 'made-up', 1)).toBeNull();
+    expect(rooms.vote(room, 'b1', undefined, 1)).toBeNull();
+    expect(rooms.vote(room, 'b1', token, 1)).toEqual({ up: 1, down: 0 });
+  });
+
+  it('keeps one vote per token per line and clears a repeat', () => {
+    const { rooms, room, token } = setup();
+    rooms.vote(room, 'b1', token, 1);
+    expect(rooms.vote(room, 'b1', token, -1)).toEqual({ up: 0, down: 1 });
+    expect(rooms.vote(room, 'b1', token, -1)).toEqual({ up: 0, down: 0 });
+  });
+
+  it('rejects unknown lines and bad values', () => {
+    const { rooms, room, token } = setup();
+    expect(rooms.vote(room, 'nope', token, 1)).toBeNull();
+    expect(rooms.vote(room, 'b1', token, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+// Per-ad scorecards, requested once when an ad closes. Text-only: the model
+// scores from the commentary log and trope counts, not from frames.
+
+export const SCORE_AXES = ['originality', 'celebrityOveruse', 'tropeDensity', 'whatWasItSelling', 'overall'];
+const SCORECARD_MAX_TOKENS = 150;
+const MAX_LOG_LINES = 30;
+const MAX_LINE_CHARS = 300;
+
+const cleanText = (value, max) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+// Validate the client payload; returns { error } or the cleaned ad
+export function parseScoreRequest(body) {
+  const ad = body?.ad;
+  if (!ad || typeof ad !== 'object') return { error: 'ad is required' };
+
+  const commentaryLog = (Array.isArray(ad.commentaryLog) ? ad.commentaryLog : [])
+    .map(line => cleanText(line, MAX_LINE_CHARS))
+    .filter(Boolean)
+    .slice(-MAX_LOG_LINES);
+  if (commentaryLog.length === 0) return { error: 'ad.commentaryLog is empty' };
+
+  const tropes = Object.entries(ad.tropeCounts && typeof ad.tropeCounts === 'object' ? ad.tropeCounts : {})
+    .filter(([key, count]) => typeof key === 'string' && Number.isFinite(count))
+    .slice(0, 30)
+    .map(([key, count]) => `${key.replace(/^free:/, '').slice(0, 60)} ×${Math.round(count)}`);
+
+  return {
+    ad: {
+      brandGuess: cleanText(ad.brandGuess, 80) || 'Unknown Brand',
+      oneLiner: cleanText(ad.oneLiner, MAX_LINE_CHARS),
+      durationSec: Math.max(0, Math.round(Number(ad.durationSec) || 0)),
+      commentaryLog,
+      tropes
+    }
+  };
+}
+
+// Ads stopped before the model summed them up get a closing one-liner from the judge
+const CLOSING_LINE_PROMPT = `
+
+This ad was cut off before the roast summed it up, so also include "oneLiner": one punchy, family-friendly sentence roasting the whole ad.`;
+
+export function buildScorecardRequest({ ad }) {
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: `You are the judge of SLOP BOWL, scoring Super Bowl ads after a live comedy roast. Be fair, funny and family-friendly.
+
+Score the ad on each axis from 1 to 10:
+- originality: 10 = genuinely fresh idea, 1 = assembled from stock parts
+- celebrityOveruse: 10 = the celebrity IS the whole ad, 1 = no celebrity crutch
+- tropeDensity: 10 = wall-to-wall clichés, 1 = trope-free
+- whatWasItSelling: 10 = no idea what the product was, 1 = crystal clear
+- overall: 10 = best ad of the night, 1 = pure slop
+
+Respond with a JSON object:
+{
+  "originality": 5,
+  "celebrityOveruse": 5,
+  "tropeDensity": 5,
+  "whatWasItSelling": 5,
+  "overall": 5,
+  "verdict": "One short, funny sentence justifying the overall score"
+}${ad.oneLiner ? '' : CLOSING_LINE_PROMPT}`
+      },
+      {
+        role: 'user',
+        content: `Brand: ${ad.brandGuess}
+Length: ${ad.durationSec}s
+Tropes spotted: ${ad.tropes.length ? ad.tropes.join(', ') : 'none logged'}
+Roast summary: ${ad.oneLiner || '(none)'}
+Live commentary:
+${ad.commentaryLog.map(line => `- ${line}`).join('\n')}`
+      }
+    ],
+    max_tokens: SCORECARD_MAX_TOKENS,
+    temperature: 0.4,
+    response_format: { type: 'json_object' }
+  };
+}
+
+// Clamp the model's numbers to 1-10 integers; null if the reply is unusable
+export function parseScorecard(parsed) {
+  if (!parsed || typeof parsed !== 'object') return null;
+  const scorecard = {};
+  for (const axis of SCORE_AXES) {
+    const value = Number(parsed[axis]);
+    if (!Number.isFinite(value)) return null;
+    scorecard[axis] = Math.min(10, Math.max(1, Math.round(value)));
+  }
+  scorecard.verdict = cleanText(parsed.verdict, 200);
+  return scorecard;
+}
+
+// The closing one-liner asked for when the ad came without one ('' if the model skipped it)
+export function parseClosingLine(parsed) {
+  return cleanText(parsed?.oneLiner, MAX_LINE_CHARS);
+}
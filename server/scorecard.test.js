@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { buildScorecardRequest, parseClosingLine, parseScorecard, parseScoreRequest } from './scorecard.js';
+
+const adWith = (oneLiner) => parseScoreRequest({
+  ad: { brandGuess: 'Apex Trucks', oneLiner, durationSec: 30, commentaryLog: ['A truck. On a mountain.'], tropeCounts: {} }
+}).ad;
+
+describe('buildScorecardRequest', () => {
+  it('asks for a closing one-liner only when the ad has none', () => {
+    const system = (ad) => buildScorecardRequest({ ad }).messages[0].content;
+    expect(system(adWith(''))).toContain('"oneLiner"');
+    expect(system(adWith('Trucks: now with more mountain.'))).not.toContain('"oneLiner"');
+  });
+});
+
+describe('parseClosingLine', () => {
+  it('trims the line and treats anything else as missing', () => {
+    expect(parseClosingLine({ oneLiner: '  Mountain, truck, repeat.  ' })).toBe('Mountain, truck, repeat.');
+    expect(parseClosingLine({ oneLiner: 42 })).toBe('');
+    expect(parseClosingLine(null)).toBe('');
+  });
+});
+
+describe('parseScorecard', () => {
+  it('clamps every axis to 1-10 and rejects a missing one', () => {
+    const scores = { originality: 12, celebrityOveruse: 0, tropeDensity: 5.4, whatWasItSelling: 3, overall: 7 };
+    expect(parseScorecard({ ...scores, verdict: 'Fine.' })).toEqual({
+      originality: 10, celebrityOveruse: 1, tropeDensity: 5, whatWasItSelling: 3, overall: 7, verdict: 'Fine.'
+    });
+    expect(parseScorecard({ ...scores, overall: 'great' })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+// Helpers for streaming analysis over server-sent events.
+
+// Parse an SSE byte stream (e.g. an upstream fetch body) into data payloads
+export async function* readEventStream(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+    }
+  }
+}
+
+// Pull the "commentary" string value out of partial JSON as it streams in,
+// returning only the newly decoded text on each push
+export function createCommentaryExtractor() {
+  let buffer = '';
+  let pos = -1;
+  let done = false;
+
+  return {
+    push(delta) {
+      if (done) return '';
+      buffer += delta;
+
+      if (pos < 0) {
+        const match = /"commentary"\s*:\s*"/.exec(buffer);
+        if (!match) return '';
+        pos = match.index + match[0].length;
+      }
+
+      let out = '';
+      while (pos < buffer.length) {
+        const ch = buffer[pos];
+        if (ch === '\\') {
+          // Wait for the rest of an escape sequence before decoding it
+          if (pos + 1 >= buffer.length) break;
+          const next = buffer[pos + 1];
+          if (next === 'u') {
+            if (pos + 6 > buffer.length) break;
+            out += String.fromCharCode(parseInt(buffer.slice(pos + 2, pos + 6), 16));
+            pos += 6;
+          } else {
+            out += { n: '\n', t: '\t', r: '', b: '', f: '' }[next] ?? next;
+            pos += 2;
+          }
+          continue;
+        }
+        if (ch === '"') {
+          done = true;
+          break;
+        }
+        out += ch;
+        pos++;
+      }
+      return out;
+    }
+  };
+}
+
+// Write one SSE event
+export function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
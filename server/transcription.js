@@ -0,0 +1,119 @@
+// Transcription backends behind /api/transcribe. The client sends a few
+// seconds of microphone audio at a time; each backend resolves to
+// { text, usage } so taglines and jingles can feed brand detection.
+import { ProviderError } from './providers.js';
+
+// ~6s of Opus is well under this; anything bigger isn't a snippet
+export const MAX_AUDIO_CHARS = 512 * 1024;
+const MAX_SESSION_ID_CHARS = 64;
+const AUDIO_TYPES = ['webm', 'ogg', 'mp4', 'mpeg', 'wav', 'x-m4a'];
+const AUDIO_URL = /^data:audio\/([\w-]+)(?:;codecs=[\w.,-]+)?;base64,(.+)$/;
+
+// Validate the client payload; returns { error } or the decoded snippet
+export function parseTranscribeRequest(body) {
+  const { audio, sessionId } = body || {};
+  const match = typeof audio === 'string' ? AUDIO_URL.exec(audio) : null;
+  if (!match || !AUDIO_TYPES.includes(match[1])) {
+    return { error: 'audio must be a base64 audio data URL' };
+  }
+  if (audio.length > MAX_AUDIO_CHARS) {
+    return { error: 'audio too long' };
+  }
+  if (typeof sessionId !== 'string' || !sessionId || sessionId.length > MAX_SESSION_ID_CHARS) {
+    return { error: 'sessionId is required' };
+  }
+  return { audio: Buffer.from(match[2], 'base64'), mimeType: `audio/${match[1]}`, sessionId };
+}
+
+const EXTENSIONS = { 'audio/mpeg': 'mp3', 'audio/x-m4a': 'm4a', 'audio/mp4': 'mp4' };
+
+// Any endpoint speaking the OpenAI audio transcriptions protocol
+function createTranscriptionsBackend({ name, baseUrl, apiKey, model, requiresKey }) {
+  return {
+    name,
+    model,
+    configured: !requiresKey || !!apiKey,
+    async transcribe({ audio, mimeType }) {
+      const form = new FormData();
+      const extension = EXTENSIONS[mimeType] || mimeType.split('/')[1];
+      form.append('file', new Blob([audio], { type: mimeType }), `snippet.${extension}`);
+      form.append('model', model);
+      form.append('response_format', 'json');
+
+      let response;
+      try {
+        response = await fetch(`${baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+          method: 'POST',
+          headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+          body: form
+        });
+      } catch (err) {
+        throw new ProviderError(`Failed to reach ${name} transcriber: ${err.message}`, 502);
+      }
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new ProviderError(`${name} transcriber error ${response.status}: ${error}`, response.status === 429 ? 429 : 502);
+      }
+      const data = await response.json();
+      return { text: typeof data.text === 'string' ? data.text.trim() : '', usage: data.usage || null };
+    }
+  };
+}
+
+// Taglines for the mock vision script's three ads, with silence in between
+const MOCK_TRANSCRIPTS = [
+  '',
+  'Fizzy Cola. Open up the fizz.',
+  '',
+  'Apex Trucks. Built for the mountain you will never drive up.',
+  '',
+  'CloudNest. Your life, in the nest.'
+];
+
+// Offline stand-in: each session steps through the scripted transcripts in order
+function createMockTranscriber() {
+  const cursors = new Map(); // sessionId -> next transcript index
+  return {
+    name: 'mock',
+    model: 'mock',
+    configured: true,
+    async transcribe({ sessionId = 'default' } = {}) {
+      const index = cursors.get(sessionId) || 0;
+      cursors.set(sessionId, index + 1);
+      return { text: MOCK_TRANSCRIPTS[index % MOCK_TRANSCRIPTS.length], usage: null };
+    }
+  };
+}
+
+// Pick the backend: TRANSCRIBE_PROVIDER=openai|local|mock|off, defaulting to
+// mock alongside the mock vision provider and openai otherwise
+export function createTranscriber(env = process.env) {
+  const fallback = (env.VISION_PROVIDER || '').toLowerCase() === 'mock' ? 'mock' : 'openai';
+  const kind = (env.TRANSCRIBE_PROVIDER || fallback).toLowerCase();
+
+  switch (kind) {
+    case 'openai':
+      return createTranscriptionsBackend({
+        name: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_TRANSCRIBE_MODEL || 'whisper-1',
+        requiresKey: true
+      });
+    case 'local':
+      return createTranscriptionsBackend({
+        name: 'local',
+        baseUrl: env.LOCAL_TRANSCRIBE_URL || 'http://localhost:8000/v1',
+        apiKey: env.LOCAL_TRANSCRIBE_API_KEY,
+        model: env.LOCAL_TRANSCRIBE_MODEL || 'Systran/faster-whisper-small',
+        requiresKey: false
+      });
+    case 'mock':
+      return createMockTranscriber();
+    case 'off':
+      return { name: 'off', model: null, configured: false, transcribe: null };
+    default:
+      throw new Error(`Unknown TRANSCRIBE_PROVIDER "${kind}" (expected openai, local, mock or off)`);
+  }
+}
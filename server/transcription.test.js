@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_AUDIO_CHARS, createTranscriber, parseTranscribeRequest } from './transcription.js';
+
+const snippet = (type = 'webm;codecs=opus', data = 'GkXfow==') => `data:audio/${type};base64,${data}`;
+
+describe('parseTranscribeRequest', () => {
+  it('decodes an audio data URL', () => {
+    const request = parseTranscribeRequest({ audio: snippet(), sessionId: 's1' });
+    expect(request.mimeType).toBe('audio/webm');
+    expect(request.audio).toEqual(Buffer.from('GkXfow==', 'base64'));
+    expect(request.sessionId).toBe('s1');
+  });
+
+  it.each([
+    ['missing audio', { sessionId: 's1' }, /data URL/],
+    ['an image', { audio: 'data:image/jpeg;base64,AAAA', sessionId: 's1' }, /data URL/],
+    ['an unknown audio type', { audio: snippet('flac'), sessionId: 's1' }, /data URL/],
+    ['oversized audio', { audio: snippet('webm', 'A'.repeat(MAX_AUDIO_CHARS)), sessionId: 's1' }, /too long/],
+    ['no session id', { audio: snippet() }, /sessionId/],
+    ['an oversized session id', { audio: snippet(), sessionId: 'x'.repeat(65) }, /sessionId/]
+  ])('rejects %s', (_label, body, error) => {
+    expect(parseTranscribeRequest(body).error).toMatch(error);
+  });
+});
+
+describe('createTranscriber', () => {
+  it('defaults to the mock alongside the mock vision provider', () => {
+    expect(createTranscriber({ VISION_PROVIDER: 'mock' }).name).toBe('mock');
+  });
+
+  it('is unconfigured without a key for openai or when off', () => {
+    expect(createTranscriber({}).configured).toBe(false);
+    expect(createTranscriber({ OPENAI_API_KEY: 'sk-test' }).configured).toBe(true);
+    expect(createTranscriber({ TRANSCRIBE_PROVIDER: 'off' }).configured).toBe(false);
+  });
+
+  it('steps each session through the mock transcripts', async () => {
+    const transcriber = createTranscriber({ TRANSCRIBE_PROVIDER: 'mock' });
+    expect((await transcriber.transcribe({ sessionId: 'a' })).text).toBe('');
+    expect((await transcriber.transcribe({ sessionId: 'a' })).text).toMatch(/Fizzy Cola/);
+    expect((await transcriber.transcribe({ sessionId: 'b' })).text).toBe('');
+  });
+
+  it('rejects an unknown backend', () => {
+    expect(() => createTranscriber({ TRANSCRIBE_PROVIDER: 'nope' })).toThrow(/Unknown TRANSCRIBE_PROVIDER/);
+  });
+});
@@ -1,31 +1,87 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import './App.css';
+import type { AdSession, CommentaryEntry, Confidence, FrameAnalysis } from './types';
+import { readEventStream } from './eventStream';
+import { openBudgetSession, sessionHeaders, type Budget } from './budget';
+import { createRoom, endRoom, publishRoomEvent, roomCodeFromUrl, roomLink, type HostRoom } from './rooms';
+import { useRoomStream } from './useRoomStream';
+import RoomViewer from './RoomViewer';
+import { createAnalysisScheduler, type AnalysisScheduler, type TickOutcome } from './analysisScheduler';
+import { countTropes, normalizeTropes, stockLineFor, STOCK_LINE_THRESHOLD } from './tropes';
+import { createBingoCard, daubTropes, formatBingoCard, shiftBingoCard, toggleSquare, type BingoCard } from './bingo';
+import BingoPanel from './BingoPanel';
+import Leaderboard from './Leaderboard';
+import { formatLeaderboard, scoreAd } from './scoring';
+import { findResumableSession, loadSession, loadThumbnails, saveSession, saveThumbnail, type StoredSession } from './persistence';
+import HistoryPanel from './HistoryPanel';
+import Timeline from './Timeline';
+import { isKeyMoment } from './timeline';
+import { TIMELINE_THUMBNAIL_WIDTH, createThumbnail, loadBlurFaces, saveBlurFaces } from './thumbnails';
+import { adFilename, shareCardImage, shareFile, type CardFormat } from './shareCards';
+import { INPUT_SOURCES, createMediaClock, inputSourceSupported, openInputStream, type InputSourceKind, type MediaClock } from './inputSource';
+import { createHighlightRecorder, recordingSupported, type HighlightClip, type HighlightRecorder } from './highlightRecorder';
+import { loadPermalinks, permalinkKey, publishPermalink, unpublishPermalink, type Permalink } from './permalinks';
+import { DEFAULT_VOICE, cancelSpeech, primeSpeech, speak, speechSupported, type VoiceSettings } from './speech';
+import {
+  DEFAULT_PERSONA,
+  HEAT_MIN,
+  applyPersonaRules,
+  fetchPersonas,
+  loadPersonaSelection,
+  savePersonaSelection,
+  type BubbleAccent,
+  type PersonaOption,
+  type PersonaSelection
+} from './personas';
+import { parseFrameAnalysis } from './frameAnalysis';
+import { fetchLineup, lineupSize, placeInLineup, seenLineupAds, type Lineup } from './lineup';
+import { audioCaptureSupported, startAudioListener, transcribeSnippet, type AudioListener } from './audioListener';
+import { computeFrameSignature, createFrameChangeDetector, type FrameAssessment } from './frameChange';
 
 // Types
 interface CommentaryBubble {
   id: string;
   text: string;
   position: 'left' | 'right';
-  accent: 'green' | 'black' | 'red';
+  accent: BubbleAccent;
   createdAt: number;
+  live?: boolean; // still streaming in
 }
 
-interface CommentaryEntry {
-  id: string;
-  timestamp: number;
-  text: string;
-  confidence?: 'guessing' | 'suspicious' | 'certain';
+// Live record of the ad currently on screen, read from inside the analysis loop
+interface AdInProgress {
+  id: string; // becomes the saved AdSession's id; media time can repeat, so never derived from it
+  startTime: number;
+  brandGuess: string | null;
+  brandId: string | null; // lineup brand, once the guess matched one
+  theory: string;
+  tropes: string[]; // display labels, canonical where matched
+  tropeCounts: Record<string, number>;
+  commentary: CommentaryEntry[];
+  thumbnail: string | null;
+  thumbnailScore: number; // tropes + brand seen in the frame the thumbnail came from
+  oneLiner: string; // the model's summary from a suspected break that didn't stick
 }
 
-interface AdSession {
-  id: string;
-  brandGuess: string;
+// A suspected ad boundary waiting for confirmation from the next frame(s)
+interface PendingAdBreak {
   oneLiner: string;
-  commentaryLog: string[];
-  startTime: number;
-  endTime: number;
+  frames: number;
+  next: AdInProgress;
+  seenAt: number; // wall-clock, for trimming the transcript heard since
+}
+
+interface CapturedFrame {
+  image: string | null; // null when the frame was skipped as a duplicate
+  assessment: FrameAssessment | null;
 }
 
+type AnalyzeResponse =
+  | { status: 'ok'; result: FrameAnalysis }
+  | { status: 'rate-limited'; retryAfterMs?: number }
+  | { status: 'stop' } // session budget used up
+  | { status: 'error' };
+
 interface AnalysisState {
   isAnalyzing: boolean;
   currentTheory: string;
@@ -34,58 +90,73 @@ interface AnalysisState {
   commentary: CommentaryEntry[];
 }
 
-// Single system prompt — Snarky character
-const SYSTEM_PROMPT = `You are Snarky, a sharp-witted TV ad critic delivering a family-friendly comedy roast.
-
-WHO YOU ARE:
-- A jaded ad connoisseur who has seen every trope and trick
-- You tease brands about their commercials with roast-style jokes
-- You love the craft even when roasting the result
-
-YOUR VOICE — a blend of:
-- Larry David's refusal to be impressed
-- A comedy roast host teasing brands playfully
-- Bill Murray's deadpan wit
-
-RULES:
-- 1-2 SHORT sentences max. Punchy and quick.
-- NEVER start with "Ah" or "Oh" or "Well" — vary your openings
-- Avoid overusing "nothing says" or "nothing like" — vary your phrasing
-- Roast the brand and commercial elements with jokes
-- Sharp and funny, never cruel
-- Make every word count`;
-
-// Ad tropes database for enhanced commentary
-const AD_TROPES = [
-  { trigger: 'family', response: 'Ah yes, the Nuclear Family™ - advertising\'s favorite fiction' },
-  { trigger: 'beach', response: 'Beach setting detected. Freedom/escape narrative incoming.' },
-  { trigger: 'golden retriever', response: 'GOLDEN RETRIEVER ALERT. Trust score artificially inflated.' },
-  { trigger: 'laughing', response: 'Performative laughter. Nobody is this happy about [product].' },
-  { trigger: 'slow motion', response: 'Slow-mo = they want you to FEEL something you shouldn\'t.' },
-  { trigger: 'white background', response: 'Clinical white void. "Clean" and "pure" subliminal messaging.' },
-  { trigger: 'mountain', response: 'Rugged mountain landscape. Masculinity and freedom signifiers.' },
-  { trigger: 'kitchen', response: 'Kitchen setting. Targeting the "household decision maker."' },
-  { trigger: 'doctor', response: 'Person in white coat detected. Authority figure deployed.' },
-  { trigger: 'celebrity', response: 'Celebrity spotted. Parasocial trust transfer in progress.' },
-];
-
-// Initial "watching" messages for immediate feedback
-const WATCHING_MESSAGES = [
-  "Alright, let's see what they're selling us...",
-  "Eyes on the screen. Let's do this.",
-  "Okay, I'm watching. Don't disappoint me.",
-  "Let's see what Madison Avenue cooked up.",
-  "Tuning in. Prepare for opinions.",
-  "Camera's rolling. So are my eyes.",
-  "I'm here. I'm watching. I'm judging.",
-  "Let the roasting commence.",
-];
+// Consecutive isNewAd frames required before we actually split the ad
+const NEW_AD_CONFIRM_FRAMES = 2;
+
+const createAdInProgress = (startTime: number): AdInProgress => ({
+  id: crypto.randomUUID(),
+  startTime,
+  brandGuess: null,
+  brandId: null,
+  theory: '',
+  tropes: [],
+  tropeCounts: {},
+  commentary: [],
+  thumbnail: null,
+  thumbnailScore: -1,
+  oneLiner: ''
+});
+
+// Fold frames buffered for a suspected ad break back into the current ad
+const mergeAdInProgress = (into: AdInProgress, from: AdInProgress) => {
+  if (!into.brandId && from.brandId) {
+    into.brandGuess = from.brandGuess;
+    into.brandId = from.brandId;
+  }
+  into.brandGuess = into.brandGuess || from.brandGuess;
+  into.tropes = [...new Set([...into.tropes, ...from.tropes])];
+  for (const [key, count] of Object.entries(from.tropeCounts)) {
+    into.tropeCounts[key] = (into.tropeCounts[key] || 0) + count;
+  }
+  for (const entry of from.commentary) entry.adId = into.id;
+  into.commentary.push(...from.commentary);
+  if (from.thumbnail && from.thumbnailScore > into.thumbnailScore) {
+    into.thumbnail = from.thumbnail;
+    into.thumbnailScore = from.thumbnailScore;
+  }
+};
+
+const SHARE_TAGS = '#SlopBowl #SuperBowl';
+// Stands in for an ad stopped before the model summed it up
+const UNSUMMED_ONE_LINER = 'Cut off before the verdict.';
+// Clips live in memory only; older ones are dropped past this
+const MAX_CLIPS = 20;
+// How far back transcribed TV audio is passed along with each frame
+const HEARD_WINDOW_MS = 20_000;
+// Frames are scaled down to this before encoding: the model only gets a
+// low-detail view, and 4K screen captures would blow the server's size caps
+const FRAME_LONG_EDGE = 1280;
+
+// Bubble pacing
+const BUBBLE_INTERVAL_MS = 3000;
+const VOICE_GAP_MS = 400;
+const VOICE_POLL_MS = 500;
+// Queue depth at which speech gets quieter and faster, and then stops altogether
+const VOICE_DUCK_BACKLOG = 2;
+const VOICE_SKIP_BACKLOG = 4;
 
 function App() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const analysisIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [inputSource, setInputSource] = useState<InputSourceKind>('camera');
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const mediaClockRef = useRef<MediaClock | null>(null);
+  // Timestamps for ads, timeline lines, bingo daubs and clip takes. Live sources
+  // use the wall clock; a file uses its own position, so times match the video.
+  const frameClockRef = useRef<() => number>(Date.now);
+  const schedulerRef = useRef<AnalysisScheduler | null>(null);
 
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -93,16 +164,62 @@ function App() {
   const [showDisclaimer, setShowDisclaimer] = useState(false);
   const [hasAnalyzed, setHasAnalyzed] = useState(false);
   const [completedAds, setCompletedAds] = useState<AdSession[]>([]);
-  const [currentAdStart, setCurrentAdStart] = useState<number>(0);
   const [showShareOverlay, setShowShareOverlay] = useState(false);
+  const [shareTab, setShareTab] = useState<'reel' | 'leaderboard' | 'timeline'>('reel');
+  const [selectedRoast, setSelectedRoast] = useState<AdSession | null>(null);
+  const [permalinks, setPermalinks] = useState<Record<string, Permalink>>(loadPermalinks);
   const [sessionLimitHit, setSessionLimitHit] = useState(false);
+  const [viewerCode, setViewerCode] = useState<string | null>(roomCodeFromUrl);
+  const [joinCode, setJoinCode] = useState('');
+  const [hostRoom, setHostRoom] = useState<HostRoom | null>(null);
+  const hostRoomRef = useRef<HostRoom | null>(null);
+  const party = useRoomStream(hostRoom?.code ?? null, hostRoom?.hostToken);
+  const [bingoCard, setBingoCard] = useState<BingoCard | null>(null);
+  const [showBingo, setShowBingo] = useState(false);
+  const [bingoCelebration, setBingoCelebration] = useState<string | null>(null);
   const [commentaryBubbles, setCommentaryBubbles] = useState<CommentaryBubble[]>([]);
   const bubbleQueueRef = useRef<string[]>([]);
   const bubblePositionRef = useRef<'left' | 'right'>('left');
-  const accentColorsRef = useRef<Array<'green' | 'black' | 'red'>>(['green', 'black', 'red']);
+  const [personas, setPersonas] = useState<PersonaOption[]>([DEFAULT_PERSONA]);
+  const [personaSelection, setPersonaSelection] = useState<PersonaSelection>(loadPersonaSelection);
+  const persona = personas.find(p => p.id === personaSelection.personaId) || personas[0];
+  const heat = Math.min(persona.maxHeat, personaSelection.heat);
+  const accentColorsRef = useRef<BubbleAccent[]>(DEFAULT_PERSONA.accents);
+  const personaRef = useRef<PersonaOption>(DEFAULT_PERSONA);
+  const [voiceOn, setVoiceOn] = useState(false);
+  const voiceOnRef = useRef(false);
+  const voiceSettingsRef = useRef<VoiceSettings>(DEFAULT_VOICE);
+  const [recording, setRecording] = useState(false);
+  const [clips, setClips] = useState<Record<string, HighlightClip>>({});
+  const recorderRef = useRef<HighlightRecorder | null>(null);
+  const immersiveRef = useRef<HTMLDivElement>(null);
+  const [listening, setListening] = useState(false);
+  const listenerRef = useRef<AudioListener | null>(null);
+  const heardRef = useRef<{ text: string; at: number }[]>([]);
+  const [lineup, setLineup] = useState<Lineup | null>(null);
+  const lineupRef = useRef<Lineup | null>(null);
+  const [blurFaces, setBlurFaces] = useState(loadBlurFaces);
+  const blurFacesRef = useRef(blurFaces);
   const accentIndexRef = useRef(0);
-  const totalAnalysisTimeRef = useRef(0); // cumulative ms of analysis
-  const SESSION_LIMIT_MS = 20 * 60 * 1000; // 20 minutes
+  const liveBubblesRef = useRef(new Map<string, CommentaryBubble>());
+  const totalAnalysisTimeRef = useRef(0); // cumulative ms of analysis, for the history
+  const [initialSessionId] = useState(() => crypto.randomUUID());
+  const sessionIdRef = useRef<string>(initialSessionId);
+  const sessionStartedAtRef = useRef(Date.now());
+  const timelineRef = useRef<CommentaryEntry[]>([]); // every line this night, uncapped
+  const persistedEntriesRef = useRef(0); // how much of timelineRef is already in IndexedDB
+  const timelineThumbnailsRef = useRef<Record<string, string>>({}); // entry id -> key-moment frame
+  const completedAdsRef = useRef<AdSession[]>([]);
+  const sessionDirtyRef = useRef(false);
+  const [resumable, setResumable] = useState<StoredSession | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const currentAdRef = useRef<AdInProgress>(createAdInProgress(0));
+  const pendingAdBreakRef = useRef<PendingAdBreak | null>(null);
+  const frameDetectorRef = useRef(createFrameChangeDetector());
+  const sessionTropeCountsRef = useRef<Record<string, number>>({});
+  const stockLineUsesRef = useRef<Record<string, number>>({});
+  const sessionTokenRef = useRef<string | null>(null); // server-signed budget session
+  const [budget, setBudget] = useState<Budget | null>(null);
 
   const [analysis, setAnalysis] = useState<AnalysisState>({
     isAnalyzing: false,
@@ -112,45 +229,200 @@ function App() {
     commentary: []
   });
 
+  // Load the persona registry for the intro picker
+  useEffect(() => {
+    fetchPersonas()
+      .then(setPersonas)
+      .catch(err => console.error('Persona load error:', err));
+  }, []);
+
+  // Remember the pick for this session and recolor bubbles to match
+  useEffect(() => {
+    savePersonaSelection(personaSelection);
+  }, [personaSelection]);
+  useEffect(() => {
+    accentColorsRef.current = persona.accents;
+    personaRef.current = persona;
+    voiceSettingsRef.current = persona.speech || DEFAULT_VOICE;
+  }, [persona]);
+  useEffect(() => {
+    blurFacesRef.current = blurFaces;
+    saveBlurFaces(blurFaces);
+  }, [blurFaces]);
+
+  // Queue lines for staggered release. Everything goes through the persona's
+  // rules, so stock lines written here can't slip past kid-safe mode.
+  const queueBubbleLines = useCallback((...lines: string[]) => {
+    const allowed = lines.map(line => applyPersonaRules(personaRef.current, line)).filter(Boolean);
+    bubbleQueueRef.current.push(...allowed);
+  }, []);
+
   // Queue commentary sentences for staggered release
   const addCommentaryBubbles = useCallback((text: string) => {
     // Split into sentences (handle ., !, ?)
-    const sentences = text.split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 0);
-    bubbleQueueRef.current.push(...sentences);
+    queueBubbleLines(...text.split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 0));
+  }, [queueBubbleLines]);
+
+  // Next slot in the left/right + accent color rotation
+  const nextBubbleStyle = useCallback(() => {
+    // Alternate position
+    const position = bubblePositionRef.current;
+    bubblePositionRef.current = position === 'left' ? 'right' : 'left';
+
+    // Cycle through accent colors
+    const accent = accentColorsRef.current[accentIndexRef.current % accentColorsRef.current.length];
+    accentIndexRef.current++;
+
+    return { position, accent };
+  }, []);
+
+  const pushBubble = useCallback((bubble: CommentaryBubble) => {
+    setCommentaryBubbles(prev => {
+      const updated = [...prev, bubble];
+      // Keep max 5 bubbles to prevent overflow clipping
+      return updated.slice(-5);
+    });
+  }, []);
+
+  // Mirror a finished bubble to watch-party viewers
+  const publishBubble = useCallback((bubble: Pick<CommentaryBubble, 'id' | 'text' | 'position' | 'accent'>) => {
+    if (!hostRoomRef.current) return;
+    const { id, text, position, accent } = bubble;
+    publishRoomEvent(hostRoomRef.current, { type: 'bubble', id, text, position, accent });
+  }, []);
+
+  // Show one sentence as a bubble
+  const releaseBubble = useCallback((sentence: string) => {
+    const bubble: CommentaryBubble = {
+      id: `${Date.now()}`,
+      text: sentence.trim(),
+      ...nextBubbleStyle(),
+      createdAt: Date.now()
+    };
+    pushBubble(bubble);
+    publishBubble(bubble);
+  }, [nextBubbleStyle, pushBubble, publishBubble]);
+
+  // Create or update the bubble that grows as streamed commentary arrives
+  // (viewers get it once, when it's final)
+  const showLiveBubble = useCallback((id: string | null, text: string, live: boolean): string => {
+    let bubble = id ? liveBubblesRef.current.get(id) : undefined;
+    if (!bubble) {
+      bubble = { id: `live-${Date.now()}`, text, live, ...nextBubbleStyle(), createdAt: Date.now() };
+      pushBubble(bubble);
+    } else {
+      const updated = { ...bubble, text: text.trim(), live };
+      setCommentaryBubbles(prev => prev.map(b => (b.id === updated.id ? updated : b)));
+      bubble = updated;
+    }
+
+    if (live) {
+      liveBubblesRef.current.set(bubble.id, bubble);
+    } else {
+      liveBubblesRef.current.delete(bubble.id);
+      publishBubble(bubble);
+    }
+    return bubble.id;
+  }, [nextBubbleStyle, pushBubble, publishBubble]);
+
+  const removeBubble = useCallback((id: string) => {
+    liveBubblesRef.current.delete(id);
+    setCommentaryBubbles(prev => prev.filter(b => b.id !== id));
   }, []);
 
-  // Release one bubble from queue every 3 seconds
+  // Release bubbles from the queue: every 3 seconds when silent, or as soon as
+  // the previous line finishes speaking in voice mode
   useEffect(() => {
-    const interval = setInterval(() => {
-      if (bubbleQueueRef.current.length > 0) {
-        const sentence = bubbleQueueRef.current.shift()!;
-
-        // Alternate position
-        const position = bubblePositionRef.current;
-        bubblePositionRef.current = position === 'left' ? 'right' : 'left';
-
-        // Cycle through accent colors
-        const accent = accentColorsRef.current[accentIndexRef.current % accentColorsRef.current.length];
-        accentIndexRef.current++;
-
-        const newBubble: CommentaryBubble = {
-          id: `${Date.now()}`,
-          text: sentence.trim(),
-          position,
-          accent,
-          createdAt: Date.now()
-        };
-
-        setCommentaryBubbles(prev => {
-          const updated = [...prev, newBubble];
-          // Keep max 5 bubbles to prevent overflow clipping
-          return updated.slice(-5);
-        });
+    let timeout: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const releaseNext = async () => {
+      if (cancelled) return;
+      const sentence = bubbleQueueRef.current.shift();
+      if (sentence === undefined) {
+        timeout = setTimeout(releaseNext, voiceOnRef.current ? VOICE_POLL_MS : BUBBLE_INTERVAL_MS);
+        return;
       }
-    }, 3000); // Release a bubble every 3 seconds (25% fewer)
-    return () => clearInterval(interval);
+
+      releaseBubble(sentence);
+
+      const backlog = bubbleQueueRef.current.length;
+      if (!voiceOnRef.current || backlog >= VOICE_SKIP_BACKLOG) {
+        // Too far behind to talk through it — let the text catch up
+        timeout = setTimeout(releaseNext, voiceOnRef.current ? VOICE_GAP_MS : BUBBLE_INTERVAL_MS);
+        return;
+      }
+
+      await speak(sentence.trim(), voiceSettingsRef.current, backlog >= VOICE_DUCK_BACKLOG);
+      if (!cancelled) timeout = setTimeout(releaseNext, VOICE_GAP_MS);
+    };
+
+    timeout = setTimeout(releaseNext, BUBBLE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      cancelSpeech();
+    };
+  }, [releaseBubble]);
+
+  // Voice toggle — priming on the click satisfies iOS's user-gesture rule
+  const toggleVoice = useCallback(() => {
+    const next = !voiceOnRef.current;
+    voiceOnRef.current = next;
+    setVoiceOn(next);
+    if (next) primeSpeech();
+    else cancelSpeech();
+  }, []);
+
+  // Highlight recording. Turning it off drops the clip for the ad in progress;
+  // ads already saved keep theirs.
+  const toggleRecording = useCallback(() => {
+    if (recorderRef.current) {
+      recorderRef.current.dispose();
+      recorderRef.current = null;
+      setRecording(false);
+      return;
+    }
+    if (!videoRef.current || !immersiveRef.current) return;
+    const recorder = createHighlightRecorder(videoRef.current, immersiveRef.current, () => frameClockRef.current());
+    recorderRef.current = recorder;
+    if (schedulerRef.current) recorder.startTake(currentAdRef.current.id);
+    if (pendingAdBreakRef.current) recorder.startTake(pendingAdBreakRef.current.next.id);
+    setRecording(true);
+  }, []);
+
+  // Mic listening: transcribed snippets are kept briefly and ride along with
+  // each frame so the model can catch a brand named in a tagline or jingle
+  const stopListening = useCallback(() => {
+    listenerRef.current?.stop();
+    listenerRef.current = null;
+    heardRef.current = [];
+    setListening(false);
   }, []);
 
+  const toggleListening = useCallback(async () => {
+    if (listenerRef.current) {
+      stopListening();
+      return;
+    }
+    try {
+      listenerRef.current = await startAudioListener(async audio => {
+        const result = await transcribeSnippet(audio, sessionIdRef.current, sessionTokenRef.current);
+        if (result.status === 'unavailable') {
+          stopListening();
+          setError("Listening isn't available on this server.");
+        } else if (result.status === 'ok' && result.text && listenerRef.current) {
+          const now = Date.now();
+          heardRef.current = [...heardRef.current.filter(line => now - line.at < HEARD_WINDOW_MS), { text: result.text, at: now }];
+        }
+      });
+      setListening(true);
+    } catch (err) {
+      console.error('Microphone error:', err);
+      setError('Mic access denied. No jingles for me, then.');
+    }
+  }, [stopListening]);
+
   // Cleanup expired bubbles (after 10 seconds total)
   useEffect(() => {
     const interval = setInterval(() => {
@@ -162,22 +434,178 @@ function App() {
     return () => clearInterval(interval);
   }, []);
 
-  // Stop camera stream
-  const stopCamera = useCallback(() => {
+  // Celebrate the first bingo and a blackout once each per card (keyed on
+  // whether they happened, so moving the card to another clock doesn't replay them)
+  const hasBingo = (bingoCard?.firstBingoAt ?? null) !== null;
+  const hasBlackout = (bingoCard?.blackoutAt ?? null) !== null;
+  useEffect(() => {
+    if (!hasBingo) return;
+    queueBubbleLines('BINGO! The ad industry is officially predictable.');
+    setBingoCelebration('BINGO!');
+    const timeout = setTimeout(() => setBingoCelebration(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [hasBingo, queueBubbleLines]);
+  useEffect(() => {
+    if (!hasBlackout) return;
+    setBingoCelebration('BLACKOUT!');
+    const timeout = setTimeout(() => setBingoCelebration(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [hasBlackout]);
+
+  // Open the bingo card, dealing one on first use
+  const openBingo = useCallback(() => {
+    setBingoCard(prev => prev ?? createBingoCard(undefined, undefined, frameClockRef.current()));
+    setShowBingo(true);
+  }, []);
+
+  // Persist the night to IndexedDB whenever something changed
+  const persistSession = useCallback(() => {
+    if (!sessionDirtyRef.current) return;
+    sessionDirtyRef.current = false;
+    // Only lines added since the last save are written; a failed save retries them
+    const from = persistedEntriesRef.current;
+    persistedEntriesRef.current = timelineRef.current.length;
+    saveSession({
+      id: sessionIdRef.current,
+      startedAt: sessionStartedAtRef.current,
+      personaId: persona.id,
+      analysisMs: totalAnalysisTimeRef.current,
+      sessionToken: sessionTokenRef.current ?? undefined,
+      completedAds: completedAdsRef.current
+    }, timelineRef.current.slice(from)).catch(err => {
+      console.error('Session save error:', err);
+      persistedEntriesRef.current = Math.min(persistedEntriesRef.current, from);
+      sessionDirtyRef.current = true;
+    });
+  }, [persona.id]);
+
+  useEffect(() => {
+    completedAdsRef.current = completedAds;
+    if (completedAds.length > 0 || timelineRef.current.length > 0) {
+      sessionDirtyRef.current = true;
+      persistSession();
+    }
+  }, [completedAds, persistSession]);
+
+  // Flush periodically during analysis, and when the tab is hidden or closing
+  useEffect(() => {
+    const interval = setInterval(persistSession, 5000);
+    const flushIfHidden = () => {
+      if (document.hidden) persistSession();
+    };
+    document.addEventListener('visibilitychange', flushIfHidden);
+    window.addEventListener('pagehide', persistSession);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', flushIfHidden);
+      window.removeEventListener('pagehide', persistSession);
+    };
+  }, [persistSession]);
+
+  // Offer to pick up the last night on launch
+  useEffect(() => {
+    findResumableSession()
+      .then(setResumable)
+      .catch(err => console.error('Resume check error:', err));
+  }, []);
+
+  // Host a watch party for this session
+  const startParty = useCallback(async () => {
+    try {
+      const room = await createRoom();
+      hostRoomRef.current = room;
+      setHostRoom(room);
+    } catch (err) {
+      console.error('Room error:', err);
+      setError("Couldn't start a party. Try again in a moment.");
+    }
+  }, []);
+
+  const stopParty = useCallback(() => {
+    if (hostRoomRef.current) endRoom(hostRoomRef.current);
+    hostRoomRef.current = null;
+    setHostRoom(null);
+  }, []);
+
+  const shareParty = useCallback(async (code: string) => {
+    const link = roomLink(code);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Join my SLOPBOWL party', text: `Party code ${code}`, url: link });
+        return;
+      } catch {
+        // Fall through to copy
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+    } catch {
+      // Fallback: no-op in unsupported contexts
+    }
+  }, []);
+
+  // Keep viewers in sync with what the host sees
+  useEffect(() => {
+    if (hostRoom) publishRoomEvent(hostRoom, { type: 'tropes', tropes: analysis.tropeDetected });
+  }, [hostRoom, analysis.tropeDetected]);
+  useEffect(() => {
+    if (hostRoom) {
+      const ads = completedAds.map(({ id, brandGuess, oneLiner }) => ({ id, brandGuess, oneLiner }));
+      publishRoomEvent(hostRoom, { type: 'ads', ads });
+    }
+  }, [hostRoom, completedAds]);
+  useEffect(() => {
+    if (hostRoom) publishRoomEvent(hostRoom, { type: 'status', isAnalyzing: analysis.isAnalyzing });
+  }, [hostRoom, analysis.isAnalyzing]);
+
+  // End the party when the host's app goes away
+  useEffect(() => {
+    return () => {
+      if (hostRoomRef.current) endRoom(hostRoomRef.current);
+    };
+  }, []);
+
+  // Join someone else's party as a viewer
+  const joinParty = useCallback((code: string) => {
+    const cleaned = code.trim().toUpperCase();
+    if (!cleaned) return;
+    window.history.replaceState(null, '', `/?room=${cleaned}`);
+    setViewerCode(cleaned);
+  }, []);
+
+  const leaveParty = useCallback(() => {
+    window.history.replaceState(null, '', '/');
+    setViewerCode(null);
+  }, []);
+
+  // Stop the input: camera/screen tracks, or the file being played
+  const stopSource = useCallback(() => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    if (analysisIntervalRef.current) {
-      clearInterval(analysisIntervalRef.current);
-      analysisIntervalRef.current = null;
-    }
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
+    mediaClockRef.current?.dispose();
+    mediaClockRef.current = null;
+    recorderRef.current?.dispose();
+    recorderRef.current = null;
+    setRecording(false);
+    stopListening();
+    setFileUrl(null);
     setIsStreaming(false);
     setAnalysis(prev => ({ ...prev, isAnalyzing: false }));
-  }, []);
+  }, [stopListening]);
+
+  // Release the file's object URL once it's replaced or dropped
+  useEffect(() => {
+    return () => {
+      if (fileUrl) URL.revokeObjectURL(fileUrl);
+    };
+  }, [fileUrl]);
 
-  // Capture frame from video
-  const captureFrame = useCallback((): string | null => {
+  // Capture frame from video, skipping the JPEG encode when nothing has changed
+  const captureFrame = useCallback((): CapturedFrame | null => {
     if (!videoRef.current || !canvasRef.current) return null;
 
     const canvas = canvasRef.current;
@@ -186,117 +614,191 @@ function App() {
 
     if (!ctx) return null;
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    ctx.drawImage(video, 0, 0);
+    const scale = Math.min(1, FRAME_LONG_EDGE / Math.max(video.videoWidth, video.videoHeight, 1));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const signature = computeFrameSignature(canvas);
+    const assessment = signature ? frameDetectorRef.current.assess(signature) : null;
+    if (assessment?.isDuplicate) {
+      return { image: null, assessment };
+    }
 
-    return canvas.toDataURL('image/jpeg', 0.8);
+    return { image: canvas.toDataURL('image/jpeg', 0.8), assessment };
   }, []);
 
-  // Save current ad as completed session
-  const saveCurrentAd = useCallback((brandGuess: string, oneLiner: string, commentaryLog: string[]) => {
+  // Tonight's lineup, for brand tracking; without one the tracker just stays hidden
+  useEffect(() => {
+    fetchLineup().then(loaded => {
+      lineupRef.current = loaded;
+      setLineup(loaded);
+    });
+  }, []);
+
+  // Save an ad as a completed session
+  const saveCurrentAd = useCallback((ad: AdInProgress, oneLiner: string, endTime: number) => {
+    const placement = lineupRef.current && ad.brandId
+      ? placeInLineup(lineupRef.current, ad.brandId, completedAdsRef.current)
+      : null;
+    if (placement?.repeat) {
+      queueBubbleLines(`${ad.brandGuess} again? Same ad, same slop.`);
+    }
     const session: AdSession = {
-      id: Date.now().toString(),
-      brandGuess: brandGuess || 'Unknown Brand',
-      oneLiner: oneLiner || 'Another $7M delusion.',
-      commentaryLog,
-      startTime: currentAdStart,
-      endTime: Date.now()
+      id: ad.id,
+      brandGuess: ad.brandGuess || 'Unknown Brand',
+      // Until the judge sends a closing line, an ad the model never summed up says so
+      oneLiner: oneLiner || UNSUMMED_ONE_LINER,
+      commentaryLog: ad.commentary.map(c => c.text),
+      tropeCounts: ad.tropeCounts,
+      startTime: ad.startTime,
+      endTime,
+      ...(ad.thumbnail ? { thumbnail: ad.thumbnail } : {}),
+      ...(placement ? { lineupAdId: placement.adId, repeatAiring: placement.repeat } : {})
     };
+    completedAdsRef.current = [...completedAdsRef.current, session];
     setCompletedAds(prev => [...prev, session]);
-  }, [currentAdStart]);
-
-  // Analyze frame with GPT-4 Vision
-  const analyzeFrame = useCallback(async (imageData: string, previousContext: string) => {
-    const messages = [
-      {
-        role: 'system',
-        content: `${SYSTEM_PROMPT}
-
-You're watching TV ads frame by frame. Share your snarky take on what you see.
-
-Previous observations: ${previousContext || 'Just tuned in.'}
-
-Respond with a JSON object:
-{
-  "commentary": "Your sharp, witty take on this frame",
-  "theory": "Your current theory of what this ad is selling",
-  "brandGuess": "Brand name if visible or suspected, null otherwise",
-  "confidence": "guessing|suspicious|certain",
-  "tropesDetected": ["array of advertising tropes you notice"],
-  "isNewAd": false,
-  "adSummaryOneLiner": ""
-}
 
-IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous observations (different brand, completely different setting/style/product), set "isNewAd": true and provide "adSummaryOneLiner" — a single sharp, memorable one-liner summing up the PREVIOUS ad in Snarky's voice. Otherwise keep isNewAd false and adSummaryOneLiner empty.`
-      },
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'image_url',
-            image_url: {
-              url: imageData,
-              detail: 'low'
-            }
-          },
-          {
-            type: 'text',
-            text: 'What do you see?'
-          }
-        ]
+    recorderRef.current?.endTake(session.id, endTime).then(clip => {
+      if (!clip) return;
+      setClips(prev => {
+        const next = { ...prev, [session.id]: clip };
+        const ids = Object.keys(next);
+        for (const id of ids.slice(0, Math.max(0, ids.length - MAX_CLIPS))) {
+          URL.revokeObjectURL(next[id].url);
+          delete next[id];
+        }
+        return next;
+      });
+    });
+
+    // Judge it in the background; the leaderboard fills in as scores land. An
+    // empty one-liner asks the judge for a closing one too.
+    scoreAd({ ...session, oneLiner }, sessionTokenRef.current).then(result => {
+      if (!result) return;
+      const { scorecard, oneLiner: closingLine } = result;
+      setCompletedAds(prev => prev.map(a => (a.id === session.id
+        ? { ...a, scorecard, ...(!oneLiner && closingLine ? { oneLiner: closingLine } : {}) }
+        : a)));
+    });
+  }, [queueBubbleLines]);
+
+  // A suspected break that didn't stick: its frames, lines and summary go back
+  // into the ad that was airing all along
+  const foldPendingBreak = useCallback((ad: AdInProgress, pending: PendingAdBreak) => {
+    ad.oneLiner = pending.oneLiner || ad.oneLiner;
+    // Lines already saved under the pending ad's id are written again with the real one
+    const firstMoved = pending.next.commentary.length > 0 ? timelineRef.current.indexOf(pending.next.commentary[0]) : -1;
+    if (firstMoved >= 0) persistedEntriesRef.current = Math.min(persistedEntriesRef.current, firstMoved);
+    mergeAdInProgress(ad, pending.next);
+    recorderRef.current?.discardTake(pending.next.id);
+  }, []);
+
+  // Mirror an in-progress ad into the on-screen analysis state
+  const showAdInProgress = useCallback((ad: AdInProgress) => {
+    setAnalysis(prev => ({
+      ...prev,
+      currentTheory: ad.theory,
+      brandGuess: ad.brandGuess,
+      tropeDetected: ad.tropes.slice(-9),
+      commentary: ad.commentary.slice(-20)
+    }));
+  }, []);
+
+  // Open (or re-validate) this night's budget session with the server
+  const ensureBudgetSession = useCallback(async () => {
+    try {
+      const session = await openBudgetSession(sessionTokenRef.current);
+      if (session.token !== sessionTokenRef.current) {
+        sessionTokenRef.current = session.token;
+        sessionDirtyRef.current = true;
       }
-    ];
+      setBudget(session.budget);
+      setSessionLimitHit(session.budget.exhausted && session.budget.reason === 'session');
+    } catch (err) {
+      console.error('Budget session error:', err);
+    }
+  }, []);
 
+  // Analyze frame with GPT-4 Vision (prompt is built server-side). Commentary
+  // streams in over SSE; onCommentary gets each new chunk of text as it arrives.
+  const analyzeFrame = useCallback(async (
+    imageData: string,
+    previousContext: string,
+    heard: string,
+    confidence: Confidence | null,
+    sceneCut: boolean,
+    onCommentary?: (text: string) => void
+  ): Promise<AnalyzeResponse> => {
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyze/stream', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...sessionHeaders(sessionTokenRef.current) },
         body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages,
-          max_tokens: 200,
-          temperature: 0.9,
-          response_format: { type: 'json_object' }
+          frame: imageData,
+          sessionId: sessionIdRef.current,
+          context: { previous: previousContext, heard, confidence, sceneCut, persona: persona.id, heat }
         })
       });
 
+      if (response.status === 401) {
+        // Token expired or the server forgot it; pick up a new one before the next frame
+        await ensureBudgetSession();
+        return { status: 'error' };
+      }
+
       if (response.status === 429) {
         const data = await response.json();
+        if (data.budget) setBudget(data.budget);
+        if (data.budget?.reason === 'session') {
+          setSessionLimitHit(true);
+          return { status: 'stop' };
+        }
         setError(data.message || 'Rate limit reached. Please try again later.');
-        return null;
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        return { status: 'rate-limited', retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined };
       }
 
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
+      if (response.status === 503) {
+        const data = await response.json();
+        if (data.error === 'ANALYSIS_PAUSED') {
+          // Paused from the admin page: back off and keep retrying until it's lifted
+          setError(data.message);
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          return { status: 'rate-limited', retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined };
+        }
       }
 
-      const data = await response.json();
-      let content = data.choices[0]?.message?.content || '';
-
-      // Strip markdown code fences if present
-      content = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+      if (!response.ok || !response.body) {
+        throw new Error(`API error: ${response.status}`);
+      }
 
-      try {
-        const parsed = JSON.parse(content);
-        return parsed;
-      } catch {
-        return {
-          commentary: content.replace(/[{}"]/g, '').trim() || 'Analyzing...',
-          theory: analysis.currentTheory,
-          brandGuess: null,
-          confidence: 'guessing',
-          tropesDetected: [],
-          isNewAd: false,
-          adSummaryOneLiner: ''
-        };
+      let result: FrameAnalysis | null = null;
+      for await (const { event, data } of readEventStream(response.body)) {
+        if (event === 'commentary') {
+          onCommentary?.(JSON.parse(data).text);
+        } else if (event === 'result') {
+          result = parseFrameAnalysis(JSON.parse(data));
+          if (!result) throw new Error('Malformed analysis result');
+        } else if (event === 'budget') {
+          setBudget(JSON.parse(data));
+        } else if (event === 'error') {
+          const { error, status } = JSON.parse(data);
+          if (status === 429) return { status: 'rate-limited' };
+          // The model garbled this frame even after a repair; just skip it
+          if (error === 'UNUSABLE_ANALYSIS') return { status: 'error' };
+          throw new Error(`Stream error: ${status}`);
+        }
       }
+
+      if (!result) throw new Error('Stream ended without a result');
+      return { status: 'ok', result };
     } catch (err) {
       console.error('Analysis error:', err);
       setError('Analysis failed. Please try again.');
-      return null;
+      return { status: 'error' };
     }
-  }, [analysis.currentTheory]);
+  }, [persona.id, heat, ensureBudgetSession]);
 
   // Start live analysis
   const startAnalysis = useCallback(() => {
@@ -314,96 +816,255 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
     bubbleQueueRef.current = [];
 
     // Add immediate "watching" message for feedback
-    const watchingMsg = WATCHING_MESSAGES[Math.floor(Math.random() * WATCHING_MESSAGES.length)];
-    bubbleQueueRef.current.push(watchingMsg);
+    const watchingMsg = persona.openingLines[Math.floor(Math.random() * persona.openingLines.length)];
+    queueBubbleLines(watchingMsg);
 
-    setCurrentAdStart(Date.now());
+    const video = videoRef.current;
+    const previousClock = frameClockRef.current;
+    frameClockRef.current = inputSource === 'file' && video
+      ? () => sessionStartedAtRef.current + Math.round(video.currentTime * 1000)
+      : Date.now;
+    // A card dealt on the old clock moves onto the new one, or its bingo minute comes out wrong
+    const clockShift = frameClockRef.current() - previousClock();
+    if (clockShift !== 0) setBingoCard(prev => (prev ? shiftBingoCard(prev, clockShift) : prev));
+    currentAdRef.current = createAdInProgress(frameClockRef.current());
+    recorderRef.current?.startTake(currentAdRef.current.id);
+    pendingAdBreakRef.current = null;
+    frameDetectorRef.current.reset();
 
     let contextWindow = '';
-    const intervalStartTime = Date.now();
-
-    analysisIntervalRef.current = setInterval(async () => {
-      // Check session time limit
-      const elapsed = Date.now() - intervalStartTime;
-      totalAnalysisTimeRef.current += 4000;
-      if (totalAnalysisTimeRef.current >= SESSION_LIMIT_MS) {
-        setSessionLimitHit(true);
-        if (analysisIntervalRef.current) {
-          clearInterval(analysisIntervalRef.current);
-          analysisIntervalRef.current = null;
-        }
-        setAnalysis(prev => ({ ...prev, isAnalyzing: false }));
-        return;
-      }
+    // How sure the model last was of the current ad's brand; null until it's said
+    let confidence: Confidence | null = null;
+
+    // One frame per tick; the scheduler decides when the next tick happens
+    const tick = async (elapsedMs: number): Promise<TickOutcome> => {
+      totalAnalysisTimeRef.current += elapsedMs;
+      sessionDirtyRef.current = true;
 
       const frame = captureFrame();
-      if (!frame) return;
+      if (!frame?.image) return { status: 'skipped' };
+
+      const frameTime = frameClockRef.current();
+      const wallTime = Date.now();
+
+      // Grow a live bubble as text streams in; in voice mode wait for whole sentences instead
+      let liveText = '';
+      let liveBubbleId: string | null = null;
+      const onCommentary = voiceOnRef.current ? undefined : (text: string) => {
+        liveText += text;
+        liveBubbleId = showLiveBubble(liveBubbleId, liveText, true);
+      };
+
+      const heard = heardRef.current
+        .filter(line => wallTime - line.at < HEARD_WINDOW_MS)
+        .map(line => line.text)
+        .join(' ');
+      const response = await analyzeFrame(frame.image, contextWindow, heard, confidence, !!frame.assessment?.isCut, onCommentary);
+      if (response.status !== 'ok') {
+        if (liveBubbleId) removeBubble(liveBubbleId);
+        if (response.status === 'stop') setAnalysis(prev => ({ ...prev, isAnalyzing: false }));
+        return response;
+      }
 
-      const result = await analyzeFrame(frame, contextWindow);
+      const result = response.result;
 
-      if (result) {
+      if (liveBubbleId) {
+        // Final text has the persona's phrase rules applied
+        showLiveBubble(liveBubbleId, result.commentary, false);
+      } else {
         // Add commentary as scattered bubbles
         addCommentaryBubbles(result.commentary);
+      }
 
-        setAnalysis(prev => ({
-          ...prev,
-          currentTheory: result.theory || prev.currentTheory,
-          brandGuess: result.brandGuess || prev.brandGuess,
-          tropeDetected: [...new Set([...prev.tropeDetected, ...(result.tropesDetected || [])])].slice(-9),
-          commentary: [...prev.commentary, { id: Date.now().toString(), text: result.commentary, timestamp: Date.now() }].slice(-20)
-        }));
+      // Hold a suspected ad break until the next frame agrees, so one odd frame can't split an ad
+      let pending = pendingAdBreakRef.current;
+      if (result.isNewAd && currentAdRef.current.commentary.length > 0) {
+        if (!pending) {
+          pending = { oneLiner: '', frames: 0, next: createAdInProgress(frameTime), seenAt: wallTime };
+          recorderRef.current?.startTake(pending.next.id);
+        }
+        pending.frames++;
+        pending.oneLiner = pending.oneLiner || result.adSummaryOneLiner || '';
+      } else if (pending) {
+        // False alarm — that was one odd frame, not a new ad. Its summary still fits this one.
+        foldPendingBreak(currentAdRef.current, pending);
+        pending = null;
+      }
+
+      const ad = pending ? pending.next : currentAdRef.current;
+      const tropes = normalizeTropes(result.tropesDetected);
+      for (const { key, trope, confidence } of tropes) {
+        // First confident sighting in this ad gets Snarky's stock line
+        if (trope && confidence >= STOCK_LINE_THRESHOLD && !ad.tropeCounts[key]) {
+          const uses = stockLineUsesRef.current[key] || 0;
+          queueBubbleLines(stockLineFor(trope, uses));
+          stockLineUsesRef.current[key] = uses + 1;
+        }
+      }
+      // Keep the frame that says the most about the ad as its thumbnail
+      const thumbnailScore = tropes.length + (result.brandGuess ? 1 : 0);
+      if (thumbnailScore > ad.thumbnailScore) {
+        ad.thumbnailScore = thumbnailScore;
+        createThumbnail(frame.image, { blurFaces: blurFacesRef.current }).then(thumbnail => {
+          if (thumbnail && ad.thumbnailScore === thumbnailScore) ad.thumbnail = thumbnail;
+        });
+      }
+      ad.theory = result.theory || ad.theory;
+      // A lineup match beats a free-text guess
+      if (result.brandId) {
+        ad.brandGuess = result.brandGuess;
+        ad.brandId = result.brandId;
+      } else if (!ad.brandId) {
+        ad.brandGuess = result.brandGuess || ad.brandGuess;
+      }
+      ad.tropes = [...new Set([...ad.tropes, ...tropes.map(t => t.label)])];
+      ad.tropeCounts = countTropes(ad.tropeCounts, tropes);
+      sessionTropeCountsRef.current = countTropes(sessionTropeCountsRef.current, tropes);
+      const canonicalIds = tropes.filter(t => t.trope).map(t => t.key);
+      if (canonicalIds.length > 0) {
+        setBingoCard(prev => (prev ? daubTropes(prev, canonicalIds, frameTime) : prev));
+      }
+      const entry: CommentaryEntry = {
+        id: crypto.randomUUID(),
+        adId: ad.id,
+        text: result.commentary,
+        timestamp: frameTime,
+        confidence: result.confidence,
+        ...(result.theory ? { theory: result.theory } : {}),
+        ...(result.brandGuess ? { brandGuess: result.brandGuess } : {})
+      };
+      const keyMoment = isKeyMoment(ad.commentary[ad.commentary.length - 1] ?? null, entry);
+      ad.commentary.push(entry);
+      timelineRef.current.push(entry);
+      if (keyMoment) {
+        const sessionId = sessionIdRef.current;
+        createThumbnail(frame.image, { blurFaces: blurFacesRef.current, maxWidth: TIMELINE_THUMBNAIL_WIDTH }).then(thumbnail => {
+          if (!thumbnail) return;
+          timelineThumbnailsRef.current[entry.id] = thumbnail;
+          return saveThumbnail(sessionId, entry.id, thumbnail);
+        }).catch(err => console.error('Thumbnail save error:', err));
+      }
 
-        contextWindow = `Theory: ${result.theory}. Recent: ${result.commentary}`;
+      if (pending && pending.frames >= NEW_AD_CONFIRM_FRAMES) {
+        // Confirmed: close the previous ad at the moment the break was first seen
+        saveCurrentAd(currentAdRef.current, pending.oneLiner || currentAdRef.current.oneLiner, pending.next.startTime);
+        currentAdRef.current = pending.next;
+        // The old ad's tagline shouldn't name the new one
+        const breakSeenAt = pending.seenAt;
+        heardRef.current = heardRef.current.filter(line => line.at >= breakSeenAt);
+        pending = null;
       }
-    }, 4000); // 4 seconds between frames
-  }, [isStreaming, captureFrame, analyzeFrame, saveCurrentAd, analysis.brandGuess, addCommentaryBubbles]);
+      pendingAdBreakRef.current = pending;
+      // While a break is unconfirmed, treat the brand as up for grabs
+      confidence = pending ? null : result.confidence;
+
+      // Context always describes the confirmed current ad so the model keeps comparing against it
+      const current = currentAdRef.current;
+      const recent = current.commentary[current.commentary.length - 1];
+      contextWindow = `Theory: ${current.theory}. Recent: ${recent?.text || ''}`;
+      showAdInProgress(current);
+
+      return { status: 'analyzed', difference: frame.assessment?.difference ?? 1 };
+    };
+
+    schedulerRef.current?.stop();
+    mediaClockRef.current?.dispose();
+    // Files run on the video's clock; live sources on the wall clock
+    const clock = inputSource === 'file' && videoRef.current ? createMediaClock(videoRef.current) : null;
+    mediaClockRef.current = clock;
+    schedulerRef.current = createAnalysisScheduler(clock
+      ? { tick, now: clock.now, setTimer: clock.setTimer, clearTimer: clock.clearTimer }
+      : { tick });
+    schedulerRef.current.start();
+  }, [isStreaming, captureFrame, analyzeFrame, saveCurrentAd, foldPendingBreak, showAdInProgress, addCommentaryBubbles, queueBubbleLines, showLiveBubble, removeBubble, persona, inputSource]);
 
   // Stop analysis
   const stopAnalysis = useCallback(() => {
-    if (analysisIntervalRef.current) {
-      clearInterval(analysisIntervalRef.current);
-      analysisIntervalRef.current = null;
-    }
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
+    mediaClockRef.current?.dispose();
+    mediaClockRef.current = null;
     // Clear the bubble queue so no more commentary appears
     bubbleQueueRef.current = [];
+    cancelSpeech();
     setCommentaryBubbles([]);
 
-    // Save current ad when stopping
-    if (analysis.brandGuess || analysis.currentTheory) {
-      saveCurrentAd(
-        analysis.brandGuess || 'Unknown Brand',
-        analysis.commentary.length > 0
-          ? analysis.commentary[analysis.commentary.length - 1].text
-          : 'They tried.',
-        analysis.commentary.map(c => c.text)
-      );
+    // Save current ad when stopping, folding in any unconfirmed break
+    const ad = currentAdRef.current;
+    const pending = pendingAdBreakRef.current;
+    if (pending) {
+      foldPendingBreak(ad, pending);
+      pendingAdBreakRef.current = null;
     }
+    const endTime = frameClockRef.current();
+    if (ad.brandGuess || ad.theory) {
+      saveCurrentAd(ad, ad.oneLiner, endTime);
+    } else {
+      recorderRef.current?.discardTake(ad.id);
+    }
+    currentAdRef.current = createAdInProgress(endTime);
     setAnalysis(prev => ({ ...prev, isAnalyzing: false }));
-  }, [analysis.brandGuess, analysis.currentTheory, analysis.commentary, saveCurrentAd]);
-
-  // Start camera (without analysis)
-  const startCamera = useCallback(async () => {
+  }, [saveCurrentAd, foldPendingBreak]);
+
+  // Start the chosen input (without analysis)
+  const startSource = useCallback(async () => {
+    if (inputSource === 'file') {
+      if (!sourceFile) return;
+      setFileUrl(URL.createObjectURL(sourceFile));
+      setIsStreaming(true);
+      setError(null);
+      return;
+    }
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } }
-      });
+      const stream = await openInputStream(inputSource);
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         streamRef.current = stream;
+        // Sharing can be ended from the browser's own UI
+        stream.getVideoTracks()[0]?.addEventListener('ended', stopSource);
         setIsStreaming(true);
         setError(null);
       }
     } catch (err) {
-      setError('Camera access denied. Point me at your TV!');
-      console.error('Camera error:', err);
+      setError(inputSource === 'screen'
+        ? 'Screen sharing was cancelled. Pick a tab with the game on it!'
+        : 'Camera access denied. Point me at your TV!');
+      console.error('Input source error:', err);
     }
-  }, []);
+  }, [inputSource, sourceFile, stopSource]);
 
-  // Dismiss intro and auto-start camera
+  // Dismiss intro and auto-start the input
   const handleEnter = useCallback(() => {
     setShowIntro(false);
-    startCamera();
-  }, [startCamera]);
+    startSource();
+    ensureBudgetSession();
+  }, [startSource, ensureBudgetSession]);
+
+  // Continue a saved night: same session id, reel, timeline and budget
+  const resumeSession = useCallback(async (sessionOrId: StoredSession | string) => {
+    const session = typeof sessionOrId === 'string' ? await loadSession(sessionOrId) : sessionOrId;
+    if (!session) {
+      setError("Couldn't load that night.");
+      return;
+    }
+    sessionIdRef.current = session.id;
+    sessionStartedAtRef.current = session.startedAt;
+    totalAnalysisTimeRef.current = session.analysisMs;
+    sessionTokenRef.current = session.sessionToken ?? null;
+    timelineRef.current = session.timeline;
+    persistedEntriesRef.current = session.timeline.length;
+    timelineThumbnailsRef.current = {};
+    loadThumbnails(session.id)
+      .then(thumbnails => {
+        if (sessionIdRef.current === session.id) Object.assign(timelineThumbnailsRef.current, thumbnails);
+      })
+      .catch(err => console.error('Thumbnail load error:', err));
+    completedAdsRef.current = session.completedAds;
+    setCompletedAds(session.completedAds);
+    setShowHistory(false);
+    setResumable(null);
+    handleEnter();
+  }, [handleEnter]);
 
   // Immersive single-button handler
   const handleImmersiveAction = useCallback(async () => {
@@ -438,9 +1099,43 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
   const immersiveButtonClass = analysis.isAnalyzing ? 'btn-danger' : 'btn-primary';
 
   // Social sharing
-  const shareToX = (text: string) => {
-    const tweet = encodeURIComponent(`${text}\n\nslopbowl.ralph.world #SlopBowl #SuperBowl`);
-    window.open(`https://twitter.com/intent/tweet?text=${tweet}`, '_blank');
+
+  // Permalink for these ads, or null (falls back to the bare site) if publishing fails
+  const permalinkFor = async (ads: AdSession[], title?: string): Promise<string | null> => {
+    try {
+      const link = await publishPermalink(ads, title);
+      setPermalinks(loadPermalinks());
+      return link.url;
+    } catch (err) {
+      console.error('Permalink error:', err);
+      return null;
+    }
+  };
+
+  const unpublish = async (ads: AdSession[]) => {
+    try {
+      await unpublishPermalink(permalinkKey(ads));
+    } catch (err) {
+      console.error('Unpublish error:', err);
+      setError('Could not take that link down. Try again.');
+    }
+    setPermalinks(loadPermalinks());
+  };
+
+  // The tab is opened synchronously so popup blockers allow it, then pointed
+  // at the intent once the permalink is ready
+  const shareToX = (text: string, link?: Promise<string | null>) => {
+    const intentUrl = (url: string | null) =>
+      `https://twitter.com/intent/tweet?text=${encodeURIComponent(`${text}\n\n${url ?? 'slopbowl.ralph.world'} ${SHARE_TAGS}`)}`;
+    if (!link) {
+      window.open(intentUrl(null), '_blank');
+      return;
+    }
+    const tab = window.open('', '_blank');
+    link.then(url => {
+      if (tab) tab.location.href = intentUrl(url);
+      else window.open(intentUrl(url), '_blank');
+    });
   };
 
   const copyText = async (text: string) => {
@@ -452,15 +1147,55 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
   };
 
 
+  const shareBingo = async (card: BingoCard) => {
+    const text = `${formatBingoCard(card)}\n\nslopbowl.ralph.world ${SHARE_TAGS}`;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'SLOPBOWL Trope Bingo', text });
+      } catch {
+        await copyText(text);
+      }
+    } else {
+      await copyText(text);
+    }
+  };
+
+  const reelLink = completedAds.length > 0 ? permalinks[permalinkKey(completedAds)] : undefined;
+
+  const copyAd = async (ad: AdSession) => {
+    const url = await permalinkFor([ad]);
+    await copyText(`${ad.oneLiner}\n\n${url ?? 'slopbowl.ralph.world'} ${SHARE_TAGS}`);
+  };
+
+  const shareCard = async (ad: AdSession, format: CardFormat) => {
+    try {
+      await shareCardImage(ad, format, `${ad.oneLiner}\n\n${SHARE_TAGS}`);
+    } catch (err) {
+      console.error('Share card error:', err);
+      setError('Could not make that card. Try again.');
+    }
+  };
+
+  const shareClip = (ad: AdSession, clip: HighlightClip) => {
+    const extension = clip.mimeType.includes('mp4') ? 'mp4' : 'webm';
+    const file = new File([clip.blob], adFilename(ad, `clip.${extension}`), { type: clip.mimeType });
+    shareFile(file, `${ad.oneLiner}\n\n${SHARE_TAGS}`);
+  };
+
   const shareAll = async () => {
+    const url = await permalinkFor(completedAds, 'Roast Reel');
+    const site = url ?? 'slopbowl.ralph.world';
     const roasts = completedAds
       .map((ad, i) => `${i + 1}. ${ad.oneLiner}`)
       .join('\n');
-    const fullText = `SLOPBOWL ROAST REEL\n\n${roasts}\n\nslopbowl.ralph.world\n#SlopBowl #SuperBowl`;
+    const fullText = shareTab === 'leaderboard'
+      ? `${formatLeaderboard(completedAds)}\n\n${site}\n${SHARE_TAGS}`
+      : `SLOPBOWL ROAST REEL\n\n${roasts}\n\n${site}\n${SHARE_TAGS}`;
+    const title = shareTab === 'leaderboard' ? 'SLOPBOWL Leaderboard' : 'SLOPBOWL Roast Reel';
 
     if (navigator.share) {
       try {
-        await navigator.share({ title: 'SLOPBOWL Roast Reel', text: fullText });
+        await navigator.share({ title, text: fullText, ...(url ? { url } : {}) });
       } catch {
         await copyText(fullText);
       }
@@ -472,9 +1207,9 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      stopCamera();
+      stopSource();
     };
-  }, [stopCamera]);
+  }, [stopSource]);
 
   // Lock body scroll
   useEffect(() => {
@@ -509,6 +1244,39 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
     };
   }, [showIntro]);
 
+  if (viewerCode) {
+    return <RoomViewer code={viewerCode} onLeave={leaveParty} />;
+  }
+
+  // One line picked off a timeline, ready to share like a whole ad
+  const selectedRoastLink = selectedRoast ? permalinks[permalinkKey([selectedRoast])] : undefined;
+  const roastOverlay = selectedRoast && (
+    <div className="share-overlay roast-overlay">
+      <div className="share-overlay-header">
+        <h2 className="share-overlay-title">THE ROAST</h2>
+        <button className="share-overlay-close" onClick={() => setSelectedRoast(null)}>✕</button>
+      </div>
+      <div className="share-overlay-cards">
+        <div className="share-card">
+          {selectedRoast.thumbnail && <img className="share-card-thumb" src={selectedRoast.thumbnail} alt="" />}
+          <div className="history-night">{selectedRoast.brandGuess}</div>
+          <div className="share-card-liner">{selectedRoast.oneLiner}</div>
+          {selectedRoastLink && (
+            <a className="share-card-link" href={selectedRoastLink.url} target="_blank" rel="noopener noreferrer">
+              {selectedRoastLink.url.replace(/^https?:\/\//, '')}
+            </a>
+          )}
+          <div className="share-card-actions">
+            <button onClick={() => shareToX(selectedRoast.oneLiner, permalinkFor([selectedRoast]))}>Share to X</button>
+            <button onClick={() => copyAd(selectedRoast)}>Copy</button>
+            <button onClick={() => shareCard(selectedRoast, 'portrait')}>Portrait card</button>
+            <button onClick={() => shareCard(selectedRoast, 'square')}>Square card</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
   if (showIntro) {
     return (
       <div className="app immersive-intro">
@@ -520,14 +1288,82 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
             <p>Point your camera at the Big Game.</p>
             <p>We'll roast every ad in <em>real time</em>.</p>
           </div>
-          <button className="immersive-intro-go" onClick={handleEnter}>
+          <div className="persona-picker">
+            {personas.map(p => (
+              <button
+                key={p.id}
+                className={`persona-option ${p.id === persona.id ? 'selected' : ''}`}
+                onClick={() => setPersonaSelection(prev => ({ ...prev, personaId: p.id }))}
+              >
+                <span className="persona-option-name">{p.name}</span>
+                <span className="persona-option-tagline">{p.tagline}</span>
+              </button>
+            ))}
+          </div>
+          <label className="heat-slider">
+            <span>HEAT {heat}/{persona.maxHeat}</span>
+            <input
+              type="range"
+              min={HEAT_MIN}
+              max={persona.maxHeat}
+              value={heat}
+              onChange={e => setPersonaSelection(prev => ({ ...prev, heat: Number(e.target.value) }))}
+            />
+          </label>
+          <div className="source-picker">
+            {INPUT_SOURCES.filter(source => inputSourceSupported(source.kind)).map(source => (
+              <button
+                key={source.kind}
+                className={`source-option ${source.kind === inputSource ? 'selected' : ''}`}
+                onClick={() => setInputSource(source.kind)}
+                title={source.hint}
+              >
+                {source.label}
+              </button>
+            ))}
+          </div>
+          {inputSource === 'file' && (
+            <label className="source-file">
+              <input type="file" accept="video/*" onChange={e => setSourceFile(e.target.files?.[0] ?? null)} />
+              <span>{sourceFile ? sourceFile.name : 'CHOOSE A VIDEO…'}</span>
+            </label>
+          )}
+          <label className="blur-faces-toggle">
+            <input type="checkbox" checked={blurFaces} onChange={e => setBlurFaces(e.target.checked)} />
+            <span>BLUR FACES IN SAVED FRAMES</span>
+          </label>
+          <button className="immersive-intro-go" onClick={handleEnter} disabled={inputSource === 'file' && !sourceFile}>
             LET'S ROAST
           </button>
+          {resumable && (
+            <button className="resume-btn" onClick={() => resumeSession(resumable)}>
+              RESUME LAST NIGHT ({resumable.completedAds.length} AD{resumable.completedAds.length === 1 ? '' : 'S'})
+            </button>
+          )}
+          <form
+            className="join-party"
+            onSubmit={e => {
+              e.preventDefault();
+              joinParty(joinCode);
+            }}
+          >
+            <input
+              value={joinCode}
+              onChange={e => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="PARTY CODE"
+              maxLength={8}
+              autoCapitalize="characters"
+            />
+            <button type="submit" disabled={!joinCode.trim()}>JOIN A PARTY</button>
+          </form>
+          <button className="history-btn" onClick={() => setShowHistory(true)}>PAST NIGHTS</button>
         </div>
         <div className="ralph-branding">
           Brought to you by <a href="https://ralph.world" target="_blank" rel="noopener noreferrer"><img src="/ralph-logo.png" alt="Ralph" /></a>
         </div>
         <button className="disclaimer-btn" onClick={() => setShowDisclaimer(true)}>i</button>
+        {showHistory && <HistoryPanel onResume={resumeSession} onSelectRoast={setSelectedRoast} onClose={() => setShowHistory(false)} />}
+        {roastOverlay}
         {showDisclaimer && (
           <div className="disclaimer-overlay" onClick={() => setShowDisclaimer(false)}>
             <div className="disclaimer-card" onClick={e => e.stopPropagation()}>
@@ -541,7 +1377,7 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
   }
 
   return (
-    <div className="app immersive">
+    <div className="app immersive" ref={immersiveRef}>
       <div className="scanlines" />
 
       {/* Fullscreen video */}
@@ -549,8 +1385,13 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
         ref={videoRef}
         autoPlay
         playsInline
-        muted
-        className={`immersive-video ${isStreaming ? 'active' : ''}`}
+        muted={inputSource !== 'file'}
+        controls={inputSource === 'file'}
+        src={inputSource === 'file' ? fileUrl ?? undefined : undefined}
+        onEnded={() => {
+          if (schedulerRef.current) stopAnalysis();
+        }}
+        className={`immersive-video source-${inputSource} ${isStreaming ? 'active' : ''}`}
       />
       <canvas ref={canvasRef} style={{ display: 'none' }} />
 
@@ -558,17 +1399,21 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
       <div className="immersive-logo">
         <span className="immersive-logo-slop">SLOP</span>
         <span className="immersive-logo-bowl">BOWL</span>
+        {lineup && lineupSize(lineup) > 0 && (
+          <span className="lineup-tracker">SEEN {seenLineupAds(completedAds)} OF {lineupSize(lineup)} ADS</span>
+        )}
       </div>
 
-      {/* Analyzing indicator below logo */}
+      {/* Analyzing indicator below logo, with what's left of the budget */}
       {analysis.isAnalyzing && (
         <div className="immersive-analyzing">
           <span className="pulse">●</span> ANALYZING
+          {budget && <span className="budget-remaining">{Math.round(budget.fractionRemaining * 100)}% LEFT</span>}
         </div>
       )}
 
       {/* Share button — centered above action button when stopped */}
-      {completedAds.length > 0 && !analysis.isAnalyzing && (
+      {(completedAds.length > 0 || bingoCard?.firstBingoAt) && !analysis.isAnalyzing && (
         <button className="share-snark-btn" onClick={() => setShowShareOverlay(true)}>
           SHARE THE SLOP ({completedAds.length})
         </button>
@@ -588,13 +1433,77 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
         {commentaryBubbles.map((bubble) => (
           <div
             key={bubble.id}
-            className={`commentary-bubble ${bubble.position} accent-${bubble.accent}`}
+            className={`commentary-bubble ${bubble.position} accent-${bubble.accent} ${bubble.live ? 'live' : ''}`}
           >
             {bubble.text}
+            {party.votes[bubble.id] && (
+              <div className="bubble-votes">
+                <span>▲ {party.votes[bubble.id].up}</span>
+                <span>▼ {party.votes[bubble.id].down}</span>
+              </div>
+            )}
           </div>
         ))}
       </div>
 
+      {/* Watch party: host badge with code, viewers and share link */}
+      {isStreaming && (hostRoom ? (
+        <div className="party-badge">
+          <span>PARTY {hostRoom.code}</span>
+          <span className="party-badge-viewers">👀 {party.viewers}</span>
+          <button onClick={() => shareParty(hostRoom.code)}>INVITE</button>
+          <button onClick={stopParty}>END</button>
+        </div>
+      ) : (
+        <button className="party-start-btn" onClick={startParty}>HOST PARTY</button>
+      ))}
+      {hostRoom && (
+        <div className="floating-reactions">
+          {party.reactions.map(r => (
+            <span key={r.id} className="floating-reaction" style={{ left: `${r.left}%` }}>{r.emoji}</span>
+          ))}
+        </div>
+      )}
+
+      {/* Voice mute toggle */}
+      {isStreaming && speechSupported() && (
+        <button className={`voice-toggle ${voiceOn ? 'on' : ''}`} onClick={toggleVoice} aria-label={voiceOn ? 'Mute voice' : 'Unmute voice'}>
+          {voiceOn ? '🔊' : '🔇'}
+        </button>
+      )}
+
+      {/* Highlight clip recording */}
+      {isStreaming && recordingSupported() && (
+        <button className={`rec-toggle ${recording ? 'on' : ''}`} onClick={toggleRecording} aria-label={recording ? 'Stop recording clips' : 'Record highlight clips'}>
+          <span className="rec-dot">●</span> REC
+        </button>
+      )}
+
+      {/* Mic listening for taglines and jingles */}
+      {isStreaming && audioCaptureSupported() && (
+        <button className={`listen-toggle ${listening ? 'on' : ''}`} onClick={toggleListening} aria-label={listening ? 'Stop listening' : 'Listen for taglines'}>
+          🎙 {listening ? 'LISTENING' : 'LISTEN'}
+        </button>
+      )}
+
+      {/* Bingo toggle + card */}
+      {isStreaming && !showBingo && (
+        <button className="bingo-toggle" onClick={openBingo}>
+          BINGO{bingoCard?.lines.length ? ` ×${bingoCard.lines.length}` : ''}
+        </button>
+      )}
+      {showBingo && bingoCard && (
+        <BingoPanel
+          card={bingoCard}
+          onToggle={i => setBingoCard(prev => (prev ? toggleSquare(prev, i, frameClockRef.current()) : prev))}
+          onNewCard={() => setBingoCard(createBingoCard(undefined, undefined, frameClockRef.current()))}
+          onClose={() => setShowBingo(false)}
+        />
+      )}
+      {bingoCelebration && (
+        <div className="bingo-celebration">{bingoCelebration}</div>
+      )}
+
       {/* Center: single action button */}
       <button className={`immersive-action-btn ${immersiveButtonClass}`} onClick={handleImmersiveAction}>
         {immersiveButtonLabel}
@@ -603,14 +1512,14 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
       {/* Placeholder when no camera */}
       {!isStreaming && (
         <div className="immersive-placeholder">
-          <p>POINT AT YOUR TV</p>
+          <p>{inputSource === 'screen' ? 'SHARE A TAB WITH THE GAME ON' : inputSource === 'file' ? 'LOADING YOUR VIDEO' : 'POINT AT YOUR TV'}</p>
         </div>
       )}
 
       {/* Session limit message */}
       {sessionLimitHit && (
         <div className="session-limit-banner">
-          <p>You've hit the 20-minute session limit.</p>
+          <p>You've used up tonight's roast budget.</p>
           <p>Take a breather and try again later!</p>
         </div>
       )}
@@ -627,24 +1536,79 @@ IMPORTANT: If this frame is clearly from a DIFFERENT ad than your previous obser
       {showShareOverlay && (
         <div className="share-overlay">
           <div className="share-overlay-header">
-            <h2 className="share-overlay-title">THE ROAST REEL</h2>
+            <h2 className="share-overlay-title">{shareTab === 'leaderboard' ? 'LEADERBOARD' : shareTab === 'timeline' ? 'TIMELINE' : 'THE ROAST REEL'}</h2>
             <button className="share-overlay-close" onClick={() => setShowShareOverlay(false)}>✕</button>
           </div>
-          <div className="share-overlay-cards">
-            {completedAds.map(ad => (
-              <div key={ad.id} className="share-card">
-                <div className="share-card-liner">{ad.oneLiner}</div>
-                <div className="share-card-actions">
-                  <button onClick={() => shareToX(ad.oneLiner)}>Share to X</button>
-                  <button onClick={() => copyText(`${ad.oneLiner}\n\nslopbowl.ralph.world #SlopBowl #SuperBowl`)}>Copy</button>
-                  <button className="btn-delete" onClick={() => setCompletedAds(prev => prev.filter(a => a.id !== ad.id))}>Delete</button>
-                </div>
-              </div>
-            ))}
+          <div className="share-overlay-tabs">
+            <button className={shareTab === 'reel' ? 'active' : ''} onClick={() => setShareTab('reel')}>REEL</button>
+            <button className={shareTab === 'leaderboard' ? 'active' : ''} onClick={() => setShareTab('leaderboard')}>LEADERBOARD</button>
+            <button className={shareTab === 'timeline' ? 'active' : ''} onClick={() => setShareTab('timeline')}>TIMELINE</button>
           </div>
-          <button className="share-all-btn" onClick={shareAll}>SHARE ALL</button>
+          {shareTab === 'leaderboard' ? (
+            <Leaderboard ads={completedAds} />
+          ) : shareTab === 'timeline' ? (
+            <Timeline
+              entries={timelineRef.current}
+              ads={completedAds}
+              startedAt={sessionStartedAtRef.current}
+              thumbnails={timelineThumbnailsRef.current}
+              live={analysis.isAnalyzing}
+              onSelect={setSelectedRoast}
+            />
+          ) : (
+            <div className="share-overlay-cards">
+              {bingoCard && bingoCard.squares.some(sq => sq.daubedBy && sq.daubedBy !== 'free') && (
+                <div className="share-card bingo-share-card">
+                  <pre className="bingo-share-grid">{formatBingoCard(bingoCard)}</pre>
+                  <div className="share-card-actions">
+                    <button onClick={() => shareToX(formatBingoCard(bingoCard))}>Share to X</button>
+                    <button onClick={() => shareBingo(bingoCard)}>Share</button>
+                    <button onClick={() => copyText(`${formatBingoCard(bingoCard)}\n\nslopbowl.ralph.world ${SHARE_TAGS}`)}>Copy</button>
+                  </div>
+                </div>
+              )}
+              {completedAds.map(ad => {
+                const link = permalinks[permalinkKey([ad])];
+                return (
+                  <div key={ad.id} className="share-card">
+                    {clips[ad.id] ? (
+                      <video className="share-card-clip" src={clips[ad.id].url} controls playsInline muted />
+                    ) : ad.thumbnail && <img className="share-card-thumb" src={ad.thumbnail} alt="" />}
+                    <div className="share-card-liner">{ad.oneLiner}</div>
+                    {ad.repeatAiring && <div className="share-card-repeat">AIRED AGAIN</div>}
+                    {link && (
+                      <a className="share-card-link" href={link.url} target="_blank" rel="noopener noreferrer">
+                        {link.url.replace(/^https?:\/\//, '')}
+                      </a>
+                    )}
+                    <div className="share-card-actions">
+                      <button onClick={() => shareToX(ad.oneLiner, permalinkFor([ad]))}>Share to X</button>
+                      <button onClick={() => copyAd(ad)}>Copy</button>
+                      <button onClick={() => shareCard(ad, 'portrait')}>Portrait card</button>
+                      <button onClick={() => shareCard(ad, 'square')}>Square card</button>
+                      {clips[ad.id] && <button onClick={() => shareClip(ad, clips[ad.id])}>Clip</button>}
+                      {link && <button onClick={() => unpublish([ad])}>Unpublish</button>}
+                      <button className="btn-delete" onClick={() => setCompletedAds(prev => prev.filter(a => a.id !== ad.id))}>Delete</button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {shareTab !== 'timeline' && reelLink && (
+            <div className="share-reel-link">
+              <a href={reelLink.url} target="_blank" rel="noopener noreferrer">
+                {reelLink.url.replace(/^https?:\/\//, '')}
+              </a>
+              <button onClick={() => unpublish(completedAds)}>Unpublish</button>
+            </div>
+          )}
+          {shareTab !== 'timeline' && (
+            <button className="share-all-btn" onClick={shareAll}>{shareTab === 'leaderboard' ? 'SHARE LEADERBOARD' : 'SHARE ALL'}</button>
+          )}
         </div>
       )}
+      {roastOverlay}
     </div>
   );
 }
@@ -0,0 +1,45 @@
+import { bingoMinute, type BingoCard } from './bingo';
+
+interface BingoPanelProps {
+  card: BingoCard;
+  onToggle: (index: number) => void;
+  onNewCard: () => void;
+  onClose: () => void;
+}
+
+function BingoPanel({ card, onToggle, onNewCard, onClose }: BingoPanelProps) {
+  const winning = new Set(card.lines.flat());
+  const minute = bingoMinute(card);
+
+  return (
+    <div className="bingo-panel">
+      <div className="bingo-panel-header">
+        <span className="bingo-panel-title">TROPE BINGO</span>
+        <button className="bingo-panel-close" onClick={onClose}>✕</button>
+      </div>
+      <div className="bingo-grid">
+        {card.squares.map((square, i) => (
+          <button
+            key={i}
+            className={`bingo-square ${square.daubedBy ? `daubed daubed-${square.daubedBy}` : ''} ${winning.has(i) ? 'winning' : ''}`}
+            onClick={() => onToggle(i)}
+          >
+            {square.label}
+          </button>
+        ))}
+      </div>
+      <div className="bingo-panel-footer">
+        <span className="bingo-status">
+          {card.blackout
+            ? 'BLACKOUT!'
+            : minute !== null
+              ? `BINGO AT MINUTE ${minute} · ${card.lines.length} LINE${card.lines.length === 1 ? '' : 'S'}`
+              : 'TAP TO DAUB · AUTO-DAUBS ON DETECTION'}
+        </span>
+        <button className="bingo-new-card" onClick={onNewCard}>NEW CARD</button>
+      </div>
+    </div>
+  );
+}
+
+export default BingoPanel;
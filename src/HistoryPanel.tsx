@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteSession, exportSession, listSessions, loadSession, loadThumbnails, type SessionSummary, type StoredSession } from './persistence';
+import Timeline from './Timeline';
+import type { AdSession } from './types';
+
+interface HistoryPanelProps {
+  onResume: (id: string) => void;
+  onSelectRoast: (roast: AdSession) => void;
+  onClose: () => void;
+}
+
+const formatNight = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Past game nights stored on this device
+function HistoryPanel({ onResume, onSelectRoast, onClose }: HistoryPanelProps) {
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [opened, setOpened] = useState<StoredSession | null>(null);
+  const [openedThumbnails, setOpenedThumbnails] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error('History load error:', err);
+        setSessions([]);
+      });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      setError(null);
+    } catch (err) {
+      console.error('History delete error:', err);
+      setError("Couldn't delete that night. Try again.");
+    }
+    refresh();
+  }, [refresh]);
+
+  const exportNight = useCallback(async (id: string) => {
+    try {
+      await exportSession(id);
+      setError(null);
+    } catch (err) {
+      console.error('History export error:', err);
+      setError("Couldn't export that night. Try again.");
+    }
+  }, []);
+
+  const openTimeline = useCallback(async (id: string) => {
+    try {
+      const [session, thumbnails] = await Promise.all([loadSession(id), loadThumbnails(id)]);
+      setOpenedThumbnails(thumbnails);
+      setOpened(session);
+      setError(null);
+    } catch (err) {
+      console.error('History load error:', err);
+      setError("Couldn't open that night's timeline.");
+    }
+  }, []);
+
+  if (opened) {
+    return (
+      <div className="share-overlay history-panel">
+        <div className="share-overlay-header">
+          <h2 className="share-overlay-title">{formatNight(opened.startedAt).toUpperCase()}</h2>
+          <button className="share-overlay-close" onClick={() => setOpened(null)}>✕</button>
+        </div>
+        <Timeline
+          entries={opened.timeline}
+          ads={opened.completedAds}
+          startedAt={opened.startedAt}
+          thumbnails={openedThumbnails}
+          onSelect={onSelectRoast}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="share-overlay history-panel">
+      <div className="share-overlay-header">
+        <h2 className="share-overlay-title">PAST NIGHTS</h2>
+        <button className="share-overlay-close" onClick={onClose}>✕</button>
+      </div>
+      {error && (
+        <div className="error-banner">
+          <span>⚠</span> {error}
+          <button onClick={() => setError(null)}>×</button>
+        </div>
+      )}
+      <div className="share-overlay-cards">
+        {sessions === null && <p className="leaderboard-empty">Loading…</p>}
+        {sessions?.length === 0 && <p className="leaderboard-empty">No saved nights on this device yet.</p>}
+        {sessions?.map(session => (
+          <div key={session.id} className="share-card">
+            <div className="history-night">{formatNight(session.startedAt)}</div>
+            <div className="share-card-liner">
+              {session.adCount} ad{session.adCount === 1 ? '' : 's'} roasted
+              {session.brands.length > 0 && ` — ${session.brands.slice(0, 4).join(', ')}${session.brands.length > 4 ? '…' : ''}`}
+            </div>
+            <div className="share-card-actions">
+              <button onClick={() => onResume(session.id)}>Resume</button>
+              <button onClick={() => openTimeline(session.id)}>Timeline</button>
+              <button onClick={() => exportNight(session.id)}>Export</button>
+              <button className="btn-delete" onClick={() => remove(session.id)}>Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
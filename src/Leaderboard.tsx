@@ -0,0 +1,59 @@
+import { leaderboardAwards, rankAds } from './scoring';
+import type { AdSession } from './types';
+
+interface LeaderboardProps {
+  ads: AdSession[];
+}
+
+function Leaderboard({ ads }: LeaderboardProps) {
+  const ranked = rankAds(ads);
+  const awards = leaderboardAwards(ads).slice(1); // "best" is the MVP card
+  const pending = ads.length - ranked.length;
+  const mvp = ranked[0];
+
+  if (!mvp) {
+    return (
+      <div className="leaderboard">
+        <p className="leaderboard-empty">{pending > 0 ? 'The judges are still scoring…' : 'No ads scored yet.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="leaderboard">
+      <div className="mvp-card">
+        <span className="mvp-label">SLOP BOWL MVP</span>
+        <span className="mvp-brand">{mvp.brandGuess}</span>
+        <span className="mvp-score">{mvp.scorecard.overall}/10</span>
+        {mvp.scorecard.verdict && <p className="mvp-verdict">{mvp.scorecard.verdict}</p>}
+      </div>
+
+      {awards.length > 0 && (
+        <div className="leaderboard-awards">
+          {awards.map(award => (
+            <div key={award.id} className="leaderboard-award">
+              <span className="leaderboard-award-title">{award.title}</span>
+              <span>{award.ad.brandGuess}</span>
+              <span className="leaderboard-award-detail">{award.detail}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ol className="leaderboard-list">
+        {ranked.map(ad => (
+          <li key={ad.id}>
+            <span className="leaderboard-brand">{ad.brandGuess}</span>
+            <span className="leaderboard-axes">
+              ORIG {ad.scorecard.originality} · CELEB {ad.scorecard.celebrityOveruse} · TROPES {ad.scorecard.tropeDensity} · ??? {ad.scorecard.whatWasItSelling}
+            </span>
+            <span className="leaderboard-overall">{ad.scorecard.overall}</span>
+          </li>
+        ))}
+      </ol>
+      {pending > 0 && <p className="leaderboard-empty">{pending} more being scored…</p>}
+    </div>
+  );
+}
+
+export default Leaderboard;
@@ -0,0 +1,135 @@
+import { useCallback, useState } from 'react';
+import { ROOM_REACTIONS, sendReaction, sendVote } from './rooms';
+import { useRoomStream } from './useRoomStream';
+
+interface RoomViewerProps {
+  code: string;
+  onLeave: () => void;
+}
+
+const CLOSED_MESSAGES: Record<string, string> = {
+  'host-left': 'The host left the party.',
+  'host-ended': 'The host ended the party.',
+  idle: 'This party went quiet and closed.',
+  full: 'This party is full.',
+  'not-found': 'No party with that code. Check the code and try again.'
+};
+
+// Read-only view of someone else's session: bubbles, tropes and the ad reel
+// arrive live; viewers can react and vote on lines.
+function RoomViewer({ code, onLeave }: RoomViewerProps) {
+  const room = useRoomStream(code);
+  const [myVotes, setMyVotes] = useState<Record<string, 1 | -1>>({});
+  const [showReel, setShowReel] = useState(false);
+
+  const { voterToken } = room;
+  const vote = useCallback((lineId: string, value: 1 | -1) => {
+    if (!voterToken) return;
+    setMyVotes(prev => {
+      const next = { ...prev };
+      if (next[lineId] === value) delete next[lineId];
+      else next[lineId] = value;
+      return next;
+    });
+    sendVote(code, voterToken, lineId, value).catch(err => console.error('Vote error:', err));
+  }, [code, voterToken]);
+
+  const react = useCallback((emoji: string) => {
+    sendReaction(code, emoji).catch(err => console.error('Reaction error:', err));
+  }, [code]);
+
+  return (
+    <div className="app immersive room-viewer">
+      <div className="scanlines" />
+
+      <div className="immersive-logo">
+        <span className="immersive-logo-slop">SLOP</span>
+        <span className="immersive-logo-bowl">BOWL</span>
+      </div>
+
+      <div className="party-badge">
+        <span>PARTY {code}</span>
+        <span className="party-badge-viewers">👀 {room.viewers}</span>
+        <button onClick={onLeave}>LEAVE</button>
+      </div>
+
+      {room.isAnalyzing && (
+        <div className="immersive-analyzing">
+          <span className="pulse">●</span> LIVE
+        </div>
+      )}
+
+      {room.tropes.length > 0 && (
+        <div className="immersive-tropes">
+          {room.tropes.map((trope, i) => (
+            <span key={i} className="immersive-trope-tag">{trope}</span>
+          ))}
+        </div>
+      )}
+
+      <div className="commentary-bubbles room-bubbles">
+        {room.bubbles.map(bubble => {
+          const counts = room.votes[bubble.id] || { up: 0, down: 0 };
+          return (
+            <div key={bubble.id} className={`commentary-bubble ${bubble.position} accent-${bubble.accent}`}>
+              {bubble.text}
+              <div className="bubble-votes">
+                <button className={myVotes[bubble.id] === 1 ? 'voted' : ''} disabled={!voterToken} onClick={() => vote(bubble.id, 1)}>▲ {counts.up}</button>
+                <button className={myVotes[bubble.id] === -1 ? 'voted' : ''} disabled={!voterToken} onClick={() => vote(bubble.id, -1)}>▼ {counts.down}</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="floating-reactions">
+        {room.reactions.map(r => (
+          <span key={r.id} className="floating-reaction" style={{ left: `${r.left}%` }}>{r.emoji}</span>
+        ))}
+      </div>
+
+      <div className="reaction-bar">
+        {ROOM_REACTIONS.map(emoji => (
+          <button key={emoji} onClick={() => react(emoji)}>{emoji}</button>
+        ))}
+      </div>
+
+      {room.ads.length > 0 && (
+        <button className="share-snark-btn" onClick={() => setShowReel(true)}>
+          ROAST REEL ({room.ads.length})
+        </button>
+      )}
+
+      {!room.connected && !room.closedReason && (
+        <div className="immersive-placeholder">
+          <p>CONNECTING TO PARTY {code}…</p>
+        </div>
+      )}
+
+      {room.closedReason && (
+        <div className="session-limit-banner">
+          <p>Party's over.</p>
+          <p>{CLOSED_MESSAGES[room.closedReason] || 'This party has closed.'}</p>
+        </div>
+      )}
+
+      {showReel && (
+        <div className="share-overlay">
+          <div className="share-overlay-header">
+            <h2 className="share-overlay-title">THE ROAST REEL</h2>
+            <button className="share-overlay-close" onClick={() => setShowReel(false)}>✕</button>
+          </div>
+          <div className="share-overlay-cards">
+            {room.ads.map(ad => (
+              <div key={ad.id} className="share-card">
+                <div className="share-card-liner">{ad.oneLiner}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RoomViewer;
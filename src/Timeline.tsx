@@ -0,0 +1,54 @@
+import { buildTimeline, formatOffset, roastFromEntry } from './timeline';
+import type { AdSession, CommentaryEntry } from './types';
+
+interface TimelineProps {
+  entries: CommentaryEntry[];
+  ads: AdSession[];
+  startedAt: number;
+  thumbnails: Record<string, string>; // entry id -> frame, for key moments only
+  live?: boolean; // lines past the last saved ad are airing now
+  onSelect: (roast: AdSession) => void;
+}
+
+// Every line of a night at its real offset, with ad breaks marked; tapping a
+// line hands it up as a roast to share
+function Timeline({ entries, ads, startedAt, thumbnails, live = false, onSelect }: TimelineProps) {
+  const rows = buildTimeline(entries, ads, startedAt);
+
+  if (rows.length === 0) {
+    return <p className="leaderboard-empty">Nothing roasted yet.</p>;
+  }
+
+  return (
+    <ol className="timeline">
+      {rows.map(({ entry, offsetMs, ad, adStart, confidenceChange, theoryChanged }) => (
+        <li key={`${entry.id}-${entry.timestamp}`} className="timeline-item">
+          {adStart && (
+            <div className="timeline-ad-break">
+              <span>{ad?.brandGuess ?? entry.brandGuess ?? (live ? 'ON NOW' : 'Unknown Brand')}</span>
+              {ad?.repeatAiring && <span className="share-card-repeat">AIRED AGAIN</span>}
+              {!ad && live && <span className="timeline-live">LIVE</span>}
+            </div>
+          )}
+          <button className="timeline-entry" onClick={() => onSelect(roastFromEntry(entry, ad, thumbnails[entry.id]))}>
+            <span className="timeline-offset">{formatOffset(offsetMs)}</span>
+            {thumbnails[entry.id]
+              ? <img className="timeline-thumb" src={thumbnails[entry.id]} alt="" />
+              : <span className="timeline-thumb" />}
+            <span className="timeline-body">
+              <span className="timeline-text">{entry.text}</span>
+              {theoryChanged && <span className="timeline-theory">Theory: {entry.theory}</span>}
+              {confidenceChange && (
+                <span className={`timeline-confidence confidence-${confidenceChange.to}`}>
+                  {confidenceChange.from ? `${confidenceChange.from} → ` : ''}{confidenceChange.to}
+                </span>
+              )}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default Timeline;
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalysisScheduler, type TickOutcome } from './analysisScheduler';
+
+// Manual clock and timer queue: fire() runs the pending timer at its due time
+function harness(outcomes: TickOutcome[], visibility: { hidden: boolean } | null = null) {
+  let clock = 0;
+  let pending: { fn: () => void; at: number; ms: number } | null = null;
+  const delays: number[] = [];
+  const elapsed: number[] = [];
+  const listeners: (() => void)[] = [];
+  const scheduler = createAnalysisScheduler({
+    tick: async (elapsedMs) => {
+      elapsed.push(elapsedMs);
+      return outcomes.shift() ?? { status: 'skipped' };
+    },
+    now: () => clock,
+    setTimer: (fn, ms) => {
+      delays.push(ms);
+      pending = { fn, at: clock + ms, ms };
+      return pending;
+    },
+    clearTimer: () => {
+      pending = null;
+    },
+    visibility: visibility && {
+      get hidden() {
+        return visibility.hidden;
+      },
+      addEventListener: (_type: string, fn: () => void) => listeners.push(fn),
+      removeEventListener: () => {}
+    } as never
+  });
+  return {
+    scheduler,
+    delays,
+    elapsed,
+    lastDelay: () => delays[delays.length - 1],
+    advance: (ms: number) => {
+      clock += ms;
+    },
+    setHidden: (hidden: boolean) => {
+      visibility!.hidden = hidden;
+      listeners.forEach(fn => fn());
+    },
+    hasTimer: () => pending !== null,
+    async fire() {
+      const timer = pending!;
+      pending = null;
+      clock = timer.at;
+      timer.fn();
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  };
+}
+
+describe('createAnalysisScheduler', () => {
+  it('starts at the base interval', () => {
+    const h = harness([]);
+    h.scheduler.start();
+    expect(h.delays).toEqual([4000]);
+  });
+
+  it('speeds up on busy frames and slows down on static ones', async () => {
+    const h = harness([
+      { status: 'analyzed', difference: 0.5 },
+      { status: 'analyzed', difference: 0.01 }
+    ]);
+    h.scheduler.start();
+    await h.fire();
+    expect(h.lastDelay()).toBe(3000);
+    await h.fire();
+    expect(h.lastDelay()).toBe(3750);
+  });
+
+  it('stays within the min and max interval', async () => {
+    const h = harness(Array(10).fill({ status: 'skipped' }));
+    h.scheduler.start();
+    for (let i = 0; i < 10; i++) await h.fire();
+    expect(h.lastDelay()).toBe(12000);
+  });
+
+  it('backs off exponentially on errors and honors Retry-After', async () => {
+    const h = harness([
+      { status: 'error' },
+      { status: 'error' },
+      { status: 'rate-limited', retryAfterMs: 30000 },
+      { status: 'analyzed', difference: 0.1 }
+    ]);
+    h.scheduler.start();
+    await h.fire();
+    await h.fire();
+    await h.fire();
+    expect(h.delays.slice(1, 4)).toEqual([8000, 16000, 32000]);
+    await h.fire();
+    expect(h.lastDelay()).toBe(4000);
+  });
+
+  it('treats a throwing tick as an error', async () => {
+    const scheduler = createAnalysisScheduler({
+      tick: () => Promise.reject(new Error('boom')),
+      setTimer: (fn, ms) => {
+        delays.push(ms);
+        if (delays.length === 1) fn();
+        return null;
+      },
+      clearTimer: () => {},
+      visibility: null
+    });
+    const delays: number[] = [];
+    scheduler.start();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(delays).toEqual([4000, 8000]);
+  });
+
+  it('stops on a stop outcome', async () => {
+    const h = harness([{ status: 'stop' }]);
+    h.scheduler.start();
+    await h.fire();
+    expect(h.scheduler.isRunning()).toBe(false);
+    expect(h.hasTimer()).toBe(false);
+  });
+
+  it('pauses while hidden and leaves hidden time out of elapsedMs', async () => {
+    const h = harness([], { hidden: false });
+    h.scheduler.start();
+    h.advance(1000);
+    h.setHidden(true);
+    expect(h.hasTimer()).toBe(false);
+    h.advance(60000);
+    h.setHidden(false);
+    await h.fire();
+    expect(h.elapsed).toEqual([5000]);
+  });
+});
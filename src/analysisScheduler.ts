@@ -0,0 +1,161 @@
+// Adaptive scheduler for the frame analysis loop. Runs at most one tick at a
+// time, backs off on rate limits and errors, speeds up when the picture is
+// changing a lot, slows down on static content and pauses while the tab is hidden.
+
+export type TickOutcome =
+  | { status: 'analyzed'; difference: number } // difference: 0-1 change vs. the last sent frame
+  | { status: 'skipped' } // frame unchanged, no request made
+  | { status: 'rate-limited'; retryAfterMs?: number }
+  | { status: 'error' }
+  | { status: 'stop' };
+
+export interface SchedulerOptions {
+  // elapsedMs: active (visible, running) time since the previous tick
+  tick: (elapsedMs: number) => Promise<TickOutcome>;
+  minIntervalMs?: number;
+  baseIntervalMs?: number;
+  maxIntervalMs?: number;
+  maxBackoffMs?: number;
+  now?: () => number;
+  setTimer?: (fn: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+  visibility?: Pick<Document, 'hidden' | 'addEventListener' | 'removeEventListener'> | null;
+}
+
+export interface AnalysisScheduler {
+  start: () => void;
+  stop: () => void;
+  isRunning: () => boolean;
+  currentIntervalMs: () => number;
+}
+
+// Frame-change levels that nudge the interval down or up
+const BUSY_DIFFERENCE = 0.15;
+const STATIC_DIFFERENCE = 0.06;
+const SPEED_UP = 0.75;
+const SLOW_DOWN = 1.25;
+
+export function createAnalysisScheduler(options: SchedulerOptions): AnalysisScheduler {
+  const {
+    tick,
+    minIntervalMs = 2000,
+    baseIntervalMs = 4000,
+    maxIntervalMs = 12000,
+    maxBackoffMs = 60000,
+    now = () => Date.now(),
+    setTimer = (fn, ms) => setTimeout(fn, ms),
+    clearTimer = (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+    visibility = typeof document !== 'undefined' ? document : null
+  } = options;
+
+  let running = false;
+  let inFlight = false;
+  let timer: unknown = null;
+  let intervalMs = baseIntervalMs;
+  let backoffMs = 0;
+  let activeSince = 0;
+  let carriedMs = 0;
+
+  const clamp = (ms: number) => Math.min(maxIntervalMs, Math.max(minIntervalMs, ms));
+  const isHidden = () => !!visibility?.hidden;
+
+  const schedule = (delayMs: number) => {
+    if (!running || isHidden()) return;
+    if (timer !== null) clearTimer(timer);
+    timer = setTimer(run, delayMs);
+  };
+
+  const nextDelay = (outcome: TickOutcome): number => {
+    switch (outcome.status) {
+      case 'analyzed':
+        backoffMs = 0;
+        if (outcome.difference >= BUSY_DIFFERENCE) {
+          intervalMs = clamp(intervalMs * SPEED_UP);
+        } else if (outcome.difference < STATIC_DIFFERENCE) {
+          intervalMs = clamp(intervalMs * SLOW_DOWN);
+        } else {
+          intervalMs = clamp((intervalMs + baseIntervalMs) / 2);
+        }
+        return intervalMs;
+      case 'skipped':
+        intervalMs = clamp(intervalMs * SLOW_DOWN);
+        return intervalMs;
+      case 'rate-limited':
+        backoffMs = Math.min(maxBackoffMs, backoffMs ? backoffMs * 2 : baseIntervalMs * 2);
+        return Math.min(maxBackoffMs, Math.max(backoffMs, outcome.retryAfterMs ?? 0));
+      case 'error':
+        backoffMs = Math.min(maxBackoffMs, backoffMs ? backoffMs * 2 : baseIntervalMs * 2);
+        return backoffMs;
+      case 'stop':
+        return -1;
+    }
+  };
+
+  async function run() {
+    timer = null;
+    if (!running || inFlight || isHidden()) return;
+
+    const tickStart = now();
+    const elapsedMs = carriedMs + (tickStart - activeSince);
+    carriedMs = 0;
+    activeSince = tickStart;
+
+    inFlight = true;
+    let outcome: TickOutcome;
+    try {
+      outcome = await tick(elapsedMs);
+    } catch {
+      outcome = { status: 'error' };
+    } finally {
+      inFlight = false;
+    }
+
+    const delay = nextDelay(outcome);
+    if (delay < 0) {
+      stop();
+      return;
+    }
+    schedule(delay);
+  }
+
+  const handleVisibility = () => {
+    if (!running) return;
+    if (isHidden()) {
+      carriedMs += now() - activeSince;
+      if (timer !== null) {
+        clearTimer(timer);
+        timer = null;
+      }
+    } else {
+      activeSince = now();
+      if (!inFlight) schedule(intervalMs);
+    }
+  };
+
+  function start() {
+    if (running) return;
+    running = true;
+    intervalMs = baseIntervalMs;
+    backoffMs = 0;
+    carriedMs = 0;
+    activeSince = now();
+    visibility?.addEventListener('visibilitychange', handleVisibility);
+    schedule(intervalMs);
+  }
+
+  function stop() {
+    running = false;
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+    visibility?.removeEventListener('visibilitychange', handleVisibility);
+  }
+
+  return {
+    start,
+    stop,
+    isRunning: () => running,
+    currentIntervalMs: () => intervalMs
+  };
+}
@@ -0,0 +1,113 @@
+// Optional microphone path: records the room in short standalone snippets and
+// sends the ones with sound in them to /api/transcribe, so taglines and
+// jingles can name a brand the picture hides until the last second.
+import { sessionHeaders } from './budget';
+
+const SNIPPET_MS = 5000;
+const LEVEL_POLL_MS = 250;
+// Peak RMS (0-1) below which a snippet is treated as silence and not sent
+const SILENCE_LEVEL = 0.02;
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface AudioListener {
+  stop(): void;
+}
+
+export type TranscribeResult =
+  | { status: 'ok'; text: string }
+  | { status: 'unavailable' } // no transcriber configured on the server
+  | { status: 'error' };
+
+export function audioCaptureSupported() {
+  return !!navigator.mediaDevices?.getUserMedia
+    && typeof MediaRecorder !== 'undefined'
+    && MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Opens the mic and calls onSnippet with each non-silent snippet as a data URL.
+// Each snippet gets its own MediaRecorder so every one is a complete file.
+export async function startAudioListener(onSnippet: (audio: string) => void): Promise<AudioListener> {
+  // The TV is the signal here, so keep the browser from filtering it out as noise
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: true }
+  });
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let peak = 0;
+  const levelTimer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    peak = Math.max(peak, Math.sqrt(sum / samples.length));
+  }, LEVEL_POLL_MS);
+
+  let stopped = false;
+  let recorder: MediaRecorder | null = null;
+  let snippetTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const record = () => {
+    if (stopped) return;
+    const chunks: Blob[] = [];
+    peak = 0;
+    recorder = new MediaRecorder(stream, { mimeType });
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      // stop() ends the last snippet too; nothing from it goes out after that
+      if (stopped) return;
+      const loud = peak >= SILENCE_LEVEL;
+      record();
+      if (!loud || chunks.length === 0) return;
+      blobToDataUrl(new Blob(chunks, { type: mimeType.split(';')[0] }))
+        .then(audio => {
+          if (!stopped) onSnippet(audio);
+        })
+        .catch(err => console.error('Audio snippet error:', err));
+    };
+    recorder.start();
+    snippetTimer = setTimeout(() => recorder?.stop(), SNIPPET_MS);
+  };
+  record();
+
+  return {
+    stop() {
+      stopped = true;
+      clearTimeout(snippetTimer);
+      clearInterval(levelTimer);
+      if (recorder?.state === 'recording') recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+      void audioContext.close();
+    }
+  };
+}
+
+export async function transcribeSnippet(audio: string, sessionId: string, sessionToken: string | null): Promise<TranscribeResult> {
+  try {
+    const response = await fetch('/api/transcribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...sessionHeaders(sessionToken) },
+      body: JSON.stringify({ audio, sessionId })
+    });
+    const data = await response.json();
+    // A paused server (ANALYSIS_PAUSED) is also a 503, but only for a while
+    if (response.status === 503 && data.error === 'TRANSCRIBER_UNAVAILABLE') return { status: 'unavailable' };
+    if (!response.ok) return { status: 'error' };
+    return { status: 'ok', text: typeof data.text === 'string' ? data.text : '' };
+  } catch (err) {
+    console.error('Transcription error:', err);
+    return { status: 'error' };
+  }
+}
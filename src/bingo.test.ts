@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { BINGO_LINES, bingoMinute, createBingoCard, daubTropes, formatBingoCard, shiftBingoCard, toggleSquare } from './bingo';
+import { TROPE_CATALOG } from './tropes';
+
+const DEALT_AT = 1_000_000;
+// A fixed shuffle, so squares come out in a known order
+const deal = () => createBingoCard(TROPE_CATALOG, () => 0, DEALT_AT);
+
+const tropeIdsAt = (card: ReturnType<typeof deal>, indexes: number[]) =>
+  indexes.map(i => card.squares[i].tropeId).filter((id): id is string => !!id);
+
+describe('createBingoCard', () => {
+  it('deals 24 distinct tropes around a daubed free square', () => {
+    const card = deal();
+    expect(card.squares).toHaveLength(25);
+    expect(card.squares[12]).toMatchObject({ tropeId: null, daubedBy: 'free' });
+    expect(new Set(tropeIdsAt(card, [...Array(25).keys()])).size).toBe(24);
+  });
+
+  it('refuses a catalog too small to fill the card', () => {
+    expect(() => createBingoCard(TROPE_CATALOG.slice(0, 10))).toThrow(/at least 24/);
+  });
+});
+
+describe('daubTropes', () => {
+  it('auto-daubs matching squares and returns the same card when nothing matches', () => {
+    const card = deal();
+    const daubed = daubTropes(card, tropeIdsAt(card, [0]), DEALT_AT + 1);
+    expect(daubed.squares[0]).toMatchObject({ daubedBy: 'auto', daubedAt: DEALT_AT + 1 });
+    expect(daubTropes(daubed, ['not-a-trope'])).toBe(daubed);
+  });
+
+  it('records a completed line and when it happened', () => {
+    const card = deal();
+    const row = BINGO_LINES[0];
+    const bingo = daubTropes(card, tropeIdsAt(card, row), DEALT_AT + 90_000);
+    expect(bingo.lines).toEqual([row]);
+    expect(bingo.firstBingoAt).toBe(DEALT_AT + 90_000);
+    expect(bingoMinute(bingo)).toBe(2);
+  });
+
+  it('completes a line through the free square', () => {
+    const card = deal();
+    const middleRow = BINGO_LINES[2];
+    expect(daubTropes(card, tropeIdsAt(card, middleRow)).lines).toEqual([middleRow]);
+  });
+
+  it('flags a blackout once every square is daubed', () => {
+    const card = deal();
+    const full = daubTropes(card, tropeIdsAt(card, [...Array(25).keys()]), DEALT_AT + 5);
+    expect(full.blackout).toBe(true);
+    expect(full.blackoutAt).toBe(DEALT_AT + 5);
+    expect(formatBingoCard(full)).toContain('BLACKOUT!');
+  });
+});
+
+describe('toggleSquare', () => {
+  it('daubs and clears a square but never the free one', () => {
+    const card = deal();
+    const daubed = toggleSquare(card, 0, DEALT_AT + 1);
+    expect(daubed.squares[0].daubedBy).toBe('manual');
+    expect(toggleSquare(daubed, 0).squares[0].daubedBy).toBeNull();
+    expect(toggleSquare(card, 12)).toBe(card);
+  });
+
+  it('keeps the first bingo time after the line is broken and redone', () => {
+    const card = deal();
+    const bingo = daubTropes(card, tropeIdsAt(card, BINGO_LINES[0]), DEALT_AT + 60_000);
+    const broken = toggleSquare(bingo, 0, DEALT_AT + 120_000);
+    expect(broken.lines).toEqual([]);
+    expect(broken.firstBingoAt).toBe(DEALT_AT + 60_000);
+    const redone = toggleSquare(broken, 0, DEALT_AT + 180_000);
+    expect(redone.firstBingoAt).toBe(DEALT_AT + 60_000);
+    expect(formatBingoCard(broken)).toContain('BINGO at minute 1!');
+  });
+
+  it('keeps the blackout time when a square is cleared and daubed again', () => {
+    const card = deal();
+    const full = daubTropes(card, tropeIdsAt(card, [...Array(25).keys()]), DEALT_AT + 60_000);
+    const cleared = toggleSquare(full, 0, DEALT_AT + 120_000);
+    expect(cleared.blackout).toBe(false);
+    expect(cleared.blackoutAt).toBe(DEALT_AT + 60_000);
+    const again = toggleSquare(cleared, 0, DEALT_AT + 180_000);
+    expect(again.blackout).toBe(true);
+    expect(again.blackoutAt).toBe(DEALT_AT + 60_000);
+  });
+});
+
+describe('shiftBingoCard', () => {
+  it('moves a card dealt on one clock onto another so the bingo minute holds', () => {
+    const card = toggleSquare(deal(), 0, DEALT_AT + 30_000);
+    // Analysis of a file starts: its clock reads 5 minutes behind the wall clock
+    const shifted = shiftBingoCard(card, -300_000);
+    expect(shifted.createdAt).toBe(DEALT_AT - 300_000);
+    expect(shifted.squares[0].daubedAt).toBe(DEALT_AT - 270_000);
+    expect(shifted.squares[12].daubedAt).toBe(DEALT_AT - 300_000);
+    const bingo = daubTropes(shifted, tropeIdsAt(shifted, BINGO_LINES[0]), DEALT_AT - 300_000 + 150_000);
+    expect(bingoMinute(bingo)).toBe(3);
+  });
+});
+
+describe('formatBingoCard', () => {
+  it('shares a grid with the winning line in green', () => {
+    const card = deal();
+    const text = formatBingoCard(daubTropes(card, tropeIdsAt(card, BINGO_LINES[0]), DEALT_AT + 60_000));
+    expect(text).toContain('BINGO at minute 1! (1 line)');
+    expect(text.split('\n')[3]).toBe('🟩🟩🟩🟩🟩');
+  });
+
+  it('counts spotted tropes before any bingo', () => {
+    const card = deal();
+    expect(formatBingoCard(toggleSquare(card, 0))).toContain('1 tropes spotted, no bingo yet.');
+  });
+});
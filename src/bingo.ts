@@ -0,0 +1,141 @@
+// Trope Bingo: a randomized 5x5 card drawn from the trope catalog, daubed
+// automatically when tropes are detected or manually by tapping.
+import { TROPE_CATALOG, type Trope } from './tropes';
+
+export const BINGO_SIZE = 5;
+const FREE_INDEX = 12; // center square
+
+export interface BingoSquare {
+  tropeId: string | null; // null for the free square
+  label: string;
+  daubedBy: 'auto' | 'manual' | 'free' | null;
+  daubedAt: number | null;
+}
+
+export interface BingoCard {
+  id: string;
+  createdAt: number;
+  squares: BingoSquare[];
+  lines: number[][]; // completed lines, as square indexes
+  blackout: boolean;
+  firstBingoAt: number | null;
+  blackoutAt: number | null;
+}
+
+// Every row, column and both diagonals
+export const BINGO_LINES: number[][] = (() => {
+  const lines: number[][] = [];
+  const range = [...Array(BINGO_SIZE).keys()];
+  for (const r of range) lines.push(range.map(c => r * BINGO_SIZE + c));
+  for (const c of range) lines.push(range.map(r => r * BINGO_SIZE + c));
+  lines.push(range.map(i => i * BINGO_SIZE + i));
+  lines.push(range.map(i => i * BINGO_SIZE + (BINGO_SIZE - 1 - i)));
+  return lines;
+})();
+
+function evaluate(card: BingoCard, at: number): BingoCard {
+  const lines = BINGO_LINES.filter(line => line.every(i => card.squares[i].daubedBy !== null));
+  const blackout = card.squares.every(square => square.daubedBy !== null);
+  return {
+    ...card,
+    lines,
+    blackout,
+    // Time to first bingo and to blackout are history: un-daubing later doesn't erase them
+    firstBingoAt: card.firstBingoAt ?? (lines.length > 0 ? at : null),
+    blackoutAt: card.blackoutAt ?? (blackout ? at : null)
+  };
+}
+
+export function createBingoCard(catalog: Trope[] = TROPE_CATALOG, random = Math.random, now = Date.now()): BingoCard {
+  const needed = BINGO_SIZE * BINGO_SIZE - 1;
+  if (catalog.length < needed) {
+    throw new Error(`Bingo needs at least ${needed} tropes, catalog has ${catalog.length}`);
+  }
+
+  // Fisher-Yates on a copy, then take what fits around the free square
+  const pool = [...catalog];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  const picks = pool.slice(0, needed);
+
+  const squares: BingoSquare[] = [];
+  for (let i = 0; i < BINGO_SIZE * BINGO_SIZE; i++) {
+    if (i === FREE_INDEX) {
+      squares.push({ tropeId: null, label: 'FREE SLOP', daubedBy: 'free', daubedAt: now });
+    } else {
+      const trope = picks.shift()!;
+      squares.push({ tropeId: trope.id, label: trope.label, daubedBy: null, daubedAt: null });
+    }
+  }
+
+  return { id: `${now}`, createdAt: now, squares, lines: [], blackout: false, firstBingoAt: null, blackoutAt: null };
+}
+
+// Auto-daub any squares whose trope was detected
+export function daubTropes(card: BingoCard, tropeIds: string[], at = Date.now()): BingoCard {
+  const ids = new Set(tropeIds);
+  let changed = false;
+  const squares = card.squares.map(square => {
+    if (square.daubedBy === null && square.tropeId && ids.has(square.tropeId)) {
+      changed = true;
+      return { ...square, daubedBy: 'auto' as const, daubedAt: at };
+    }
+    return square;
+  });
+  return changed ? evaluate({ ...card, squares }, at) : card;
+}
+
+// Manual tap: daub an empty square, or clear a daubed one (the free square stays)
+export function toggleSquare(card: BingoCard, index: number, at = Date.now()): BingoCard {
+  const square = card.squares[index];
+  if (!square || square.daubedBy === 'free') return card;
+  const squares = [...card.squares];
+  squares[index] = square.daubedBy
+    ? { ...square, daubedBy: null, daubedAt: null }
+    : { ...square, daubedBy: 'manual', daubedAt: at };
+  return evaluate({ ...card, squares }, at);
+}
+
+// Move every time on the card by offsetMs, for when daubs switch clocks (say
+// from the wall clock to a file's playback position) so deal-to-bingo still adds up
+export function shiftBingoCard(card: BingoCard, offsetMs: number): BingoCard {
+  const shift = (at: number | null) => (at === null ? null : at + offsetMs);
+  return {
+    ...card,
+    createdAt: card.createdAt + offsetMs,
+    squares: card.squares.map(square => ({ ...square, daubedAt: shift(square.daubedAt) })),
+    firstBingoAt: shift(card.firstBingoAt),
+    blackoutAt: shift(card.blackoutAt)
+  };
+}
+
+// Whole minutes from the card being dealt to the first bingo
+export function bingoMinute(card: BingoCard): number | null {
+  if (card.firstBingoAt === null) return null;
+  return Math.max(1, Math.ceil((card.firstBingoAt - card.createdAt) / 60000));
+}
+
+// Emoji grid for sharing
+export function formatBingoCard(card: BingoCard): string {
+  const winning = new Set(card.lines.flat());
+  const rows: string[] = [];
+  for (let r = 0; r < BINGO_SIZE; r++) {
+    let row = '';
+    for (let c = 0; c < BINGO_SIZE; c++) {
+      const i = r * BINGO_SIZE + c;
+      row += winning.has(i) ? '🟩' : card.squares[i].daubedBy ? '🟨' : '⬛';
+    }
+    rows.push(row);
+  }
+
+  const minute = bingoMinute(card);
+  const headline = card.blackout
+    ? 'BLACKOUT! Every trope, every cliché.'
+    : minute !== null
+      ? `BINGO at minute ${minute}!${card.lines.length > 0 ? ` (${card.lines.length} line${card.lines.length === 1 ? '' : 's'})` : ''}`
+      : `${card.squares.filter(s => s.daubedBy && s.daubedBy !== 'free').length} tropes spotted, no bingo yet.`;
+
+  return `SLOPBOWL TROPE BINGO\n${headline}\n\n${rows.join('\n')}`;
+}
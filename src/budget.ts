@@ -0,0 +1,32 @@
+// Client side of the server's session budgets. The server issues a signed
+// session token and does all the counting; the client just carries the token
+// and shows what's left.
+
+export interface Budget {
+  requestsRemaining: number;
+  tokensRemaining: number;
+  fractionRemaining: number; // 0-1 of this session's budget
+  exhausted: boolean;
+  reason: 'session' | 'ip'; // which cap is binding when exhausted
+  retryAfterMs?: number;
+}
+
+export interface BudgetSession {
+  token: string;
+  budget: Budget;
+}
+
+// Start a session, or pick an existing token back up (the server hands back a
+// fresh one if it has expired)
+export async function openBudgetSession(token?: string | null): Promise<BudgetSession> {
+  const response = await fetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(token ? { token } : {})
+  });
+  if (!response.ok) throw new Error(`Session error: ${response.status}`);
+  return response.json();
+}
+
+export const sessionHeaders = (token: string | null): Record<string, string> =>
+  token ? { 'X-Session-Token': token } : {};
@@ -0,0 +1,30 @@
+// Runtime check on the server's "result" event. The server already validates
+// and repairs the model's reply; this keeps a stale or mismatched server from
+// putting anything but a well-formed FrameAnalysis on screen.
+import type { Confidence, FrameAnalysis } from './types';
+
+const CONFIDENCE_LEVELS: readonly Confidence[] = ['guessing', 'suspicious', 'certain'];
+
+const isConfidence = (value: unknown): value is Confidence =>
+  CONFIDENCE_LEVELS.includes(value as Confidence);
+
+export function parseFrameAnalysis(data: unknown): FrameAnalysis | null {
+  if (!data || typeof data !== 'object') return null;
+  const value = data as Record<string, unknown>;
+  if (typeof value.commentary !== 'string' || !value.commentary.trim()) return null;
+  if (typeof value.theory !== 'string' || typeof value.adSummaryOneLiner !== 'string') return null;
+  if (value.brandGuess !== null && typeof value.brandGuess !== 'string') return null;
+  const brandId = typeof value.brandId === 'string' ? value.brandId : null;
+  if (!isConfidence(value.confidence) || typeof value.isNewAd !== 'boolean') return null;
+  if (!Array.isArray(value.tropesDetected) || value.tropesDetected.some(t => typeof t !== 'string')) return null;
+  return {
+    commentary: value.commentary,
+    theory: value.theory,
+    brandGuess: value.brandGuess,
+    brandId,
+    confidence: value.confidence,
+    tropesDetected: value.tropesDetected,
+    isNewAd: value.isNewAd,
+    adSummaryOneLiner: value.adSummaryOneLiner
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createFrameChangeDetector, frameDifference } from './frameChange';
+
+const SIZE = 32 * 18;
+const flat = (value: number) => new Uint8Array(SIZE).fill(value);
+
+describe('frameDifference', () => {
+  it('is 0 for identical frames and 1 for black against white', () => {
+    expect(frameDifference(flat(90), flat(90))).toBe(0);
+    expect(frameDifference(flat(0), flat(255))).toBe(1);
+  });
+
+  it('treats mismatched sizes as completely different', () => {
+    expect(frameDifference(flat(0), new Uint8Array(4))).toBe(1);
+  });
+});
+
+describe('createFrameChangeDetector', () => {
+  it('always sends the first frame', () => {
+    const detector = createFrameChangeDetector();
+    expect(detector.assess(flat(100))).toEqual({ difference: 1, isDuplicate: false, isCut: false });
+  });
+
+  it('skips a near-identical frame', () => {
+    const detector = createFrameChangeDetector();
+    detector.assess(flat(100));
+    expect(detector.assess(flat(102)).isDuplicate).toBe(true);
+  });
+
+  it('sends a frame after four skips in a row', () => {
+    const detector = createFrameChangeDetector();
+    detector.assess(flat(100));
+    const skips = [1, 2, 3, 4].map(() => detector.assess(flat(100)).isDuplicate);
+    expect(skips).toEqual([true, true, true, true]);
+    expect(detector.assess(flat(100)).isDuplicate).toBe(false);
+  });
+
+  it('compares drift against the last frame sent, not the last sampled', () => {
+    const detector = createFrameChangeDetector();
+    detector.assess(flat(100));
+    detector.assess(flat(105));
+    // 12 levels from the sent frame is past the duplicate threshold
+    expect(detector.assess(flat(112)).isDuplicate).toBe(false);
+  });
+
+  it('flags a hard cut from the previous sample', () => {
+    const detector = createFrameChangeDetector();
+    detector.assess(flat(20));
+    expect(detector.assess(flat(220)).isCut).toBe(true);
+  });
+
+  it('forgets everything on reset', () => {
+    const detector = createFrameChangeDetector();
+    detector.assess(flat(100));
+    detector.reset();
+    expect(detector.assess(flat(100))).toEqual({ difference: 1, isDuplicate: false, isCut: false });
+  });
+});
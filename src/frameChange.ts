@@ -0,0 +1,82 @@
+// Lightweight frame-change detection on a tiny grayscale thumbnail, so we can
+// skip near-identical frames and flag hard cuts before spending an API call.
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+
+// Mean absolute luma difference (0-1) below which a frame counts as unchanged
+const DUPLICATE_THRESHOLD = 0.04;
+// ...and above which the picture has hard-cut to a different shot
+const CUT_THRESHOLD = 0.25;
+// Never stay silent for more than this many skipped frames in a row
+const MAX_CONSECUTIVE_SKIPS = 4;
+
+export type FrameSignature = Uint8Array;
+
+export interface FrameAssessment {
+  difference: number; // vs. the last frame we actually sent
+  isDuplicate: boolean;
+  isCut: boolean;
+}
+
+let signatureCanvas: HTMLCanvasElement | null = null;
+
+// Downscale a frame to a 32x18 grayscale signature
+export function computeFrameSignature(source: CanvasImageSource): FrameSignature | null {
+  if (!signatureCanvas) {
+    signatureCanvas = document.createElement('canvas');
+    signatureCanvas.width = SIGNATURE_WIDTH;
+    signatureCanvas.height = SIGNATURE_HEIGHT;
+  }
+  const ctx = signatureCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const luma = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 4;
+    luma[i] = Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]);
+  }
+  return luma;
+}
+
+// Mean absolute difference between two signatures, normalized to 0-1
+export function frameDifference(a: FrameSignature, b: FrameSignature): number {
+  if (a.length !== b.length) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (a.length * 255);
+}
+
+// Tracks the last sent and last sampled frames across a session
+export function createFrameChangeDetector() {
+  let lastSent: FrameSignature | null = null;
+  let lastSampled: FrameSignature | null = null;
+  let skipped = 0;
+
+  return {
+    assess(signature: FrameSignature): FrameAssessment {
+      const difference = lastSent ? frameDifference(signature, lastSent) : 1;
+      const isCut = lastSampled ? frameDifference(signature, lastSampled) >= CUT_THRESHOLD : false;
+      lastSampled = signature;
+
+      const isDuplicate = difference < DUPLICATE_THRESHOLD && skipped < MAX_CONSECUTIVE_SKIPS;
+      if (isDuplicate) {
+        skipped++;
+      } else {
+        lastSent = signature;
+        skipped = 0;
+      }
+      return { difference, isDuplicate, isCut };
+    },
+
+    reset() {
+      lastSent = null;
+      lastSampled = null;
+      skipped = 0;
+    }
+  };
+}
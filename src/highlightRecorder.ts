@@ -0,0 +1,183 @@
+// Highlight clips: the live video and the on-screen roast bubbles are
+// composited onto a canvas and recorded with MediaRecorder, one take per ad.
+// Takes start when an ad (or a suspected ad break) starts, so clips never need
+// trimming at the head; the tail is trimmed back to the ad's endTime by
+// dropping the chunks recorded after it.
+
+export interface HighlightClip {
+  blob: Blob;
+  url: string; // object URL for previews
+  mimeType: string;
+  durationMs: number;
+}
+
+export interface HighlightRecorder {
+  startTake(id: string): void;
+  endTake(id: string, endTime: number): Promise<HighlightClip | null>;
+  discardTake(id: string): void;
+  dispose(): void;
+}
+
+interface Take {
+  recorder: MediaRecorder;
+  startedAt: number;
+  chunks: { blob: Blob; at: number }[];
+}
+
+const OUTPUT_LONG_EDGE = 1280;
+const FRAME_RATE = 30;
+const VIDEO_BITS_PER_SECOND = 2_500_000;
+const CHUNK_MS = 500;
+const MIN_CLIP_MS = 2000;
+const MIME_TYPES = ['video/mp4;codecs=avc1', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+export function recordingSupported() {
+  return typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    && MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+// Fit the video the way it's fitted on screen (cover for the camera, contain for tabs and files)
+function drawVideo(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  if (!video.videoWidth || !video.videoHeight) return;
+  const fit = getComputedStyle(video).objectFit === 'contain' ? Math.min : Math.max;
+  const scale = fit(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Bubbles are read from the DOM so the clip shows exactly what was on screen:
+// layout, accent colors and the fade animation's current opacity
+function drawBubbles(ctx: CanvasRenderingContext2D, container: HTMLElement, scale: number) {
+  const origin = container.getBoundingClientRect();
+  container.querySelectorAll<HTMLElement>('.commentary-bubble').forEach(bubble => {
+    const text = bubble.firstChild?.textContent?.trim();
+    if (!text) return;
+    const style = getComputedStyle(bubble);
+    const opacity = Number(style.opacity);
+    if (!opacity) return;
+    const rect = bubble.getBoundingClientRect();
+    const x = (rect.left - origin.left) * scale;
+    const y = (rect.top - origin.top) * scale;
+    const padX = parseFloat(style.paddingLeft) * scale;
+    const padY = parseFloat(style.paddingTop) * scale;
+    const fontSize = parseFloat(style.fontSize) * scale;
+    const lineHeight = (parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.3) * scale;
+    const width = rect.width * scale;
+
+    ctx.globalAlpha = opacity;
+    ctx.fillStyle = style.backgroundColor;
+    ctx.fillRect(x, y, width, rect.height * scale);
+    ctx.fillStyle = style.color;
+    ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+    ctx.textBaseline = 'top';
+    const right = style.textAlign === 'right';
+    ctx.textAlign = right ? 'right' : 'left';
+    wrapLines(ctx, text, width - padX * 2).forEach((line, i) => {
+      ctx.fillText(line, right ? x + width - padX : x + padX, y + padY + i * lineHeight);
+    });
+    ctx.textAlign = 'left';
+    ctx.globalAlpha = 1;
+  });
+}
+
+function drawWatermark(ctx: CanvasRenderingContext2D, height: number) {
+  const size = Math.round(height * 0.06);
+  ctx.font = `${size}px "Bebas Neue", sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#f0f0f0';
+  ctx.fillText('SLOP', size * 0.5, size * 0.5);
+  ctx.fillStyle = '#ff3333';
+  ctx.fillText('BOWL', size * 0.5 + ctx.measureText('SLOP ').width, size * 0.5);
+}
+
+// `now` is the clock endTake's endTime is on (a file's playback position, say),
+// so chunks are stamped on it too
+export function createHighlightRecorder(video: HTMLVideoElement, container: HTMLElement, now: () => number = Date.now): HighlightRecorder {
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+  const bounds = container.getBoundingClientRect();
+  const scale = OUTPUT_LONG_EDGE / Math.max(bounds.width, bounds.height, 1);
+  const canvas = document.createElement('canvas');
+  // Even dimensions keep H.264 encoders happy
+  canvas.width = Math.round((bounds.width * scale) / 2) * 2;
+  canvas.height = Math.round((bounds.height * scale) / 2) * 2;
+  const ctx = canvas.getContext('2d');
+  const stream = canvas.captureStream(FRAME_RATE);
+  const takes = new Map<string, Take>();
+  let frame = 0;
+
+  const render = () => {
+    if (ctx) {
+      drawVideo(ctx, video, canvas.width, canvas.height);
+      drawBubbles(ctx, container, scale);
+      drawWatermark(ctx, canvas.height);
+    }
+    frame = requestAnimationFrame(render);
+  };
+  render();
+
+  function stopTake(id: string): Promise<Take | null> {
+    const take = takes.get(id);
+    if (!take) return Promise.resolve(null);
+    takes.delete(id);
+    if (take.recorder.state === 'inactive') return Promise.resolve(take);
+    return new Promise(resolve => {
+      take.recorder.addEventListener('stop', () => resolve(take), { once: true });
+      take.recorder.stop();
+    });
+  }
+
+  return {
+    startTake(id) {
+      if (takes.has(id)) return;
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+      const take: Take = { recorder, startedAt: now(), chunks: [] };
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) take.chunks.push({ blob: event.data, at: now() });
+      };
+      recorder.start(CHUNK_MS);
+      takes.set(id, take);
+    },
+
+    async endTake(id, endTime) {
+      const take = await stopTake(id);
+      if (!take || take.chunks.length === 0) return null;
+      // Keep the chunk that covers endTime; the first chunk carries the container header
+      const cutoff = endTime + CHUNK_MS;
+      const kept = take.chunks.filter((chunk, i) => i === 0 || chunk.at <= cutoff);
+      const durationMs = Math.min(endTime, kept[kept.length - 1].at) - take.startedAt;
+      if (durationMs < MIN_CLIP_MS) return null;
+      const blob = new Blob(kept.map(chunk => chunk.blob), { type: mimeType.split(';')[0] });
+      return { blob, url: URL.createObjectURL(blob), mimeType: blob.type, durationMs };
+    },
+
+    discardTake(id) {
+      void stopTake(id);
+    },
+
+    dispose() {
+      for (const id of [...takes.keys()]) void stopTake(id);
+      cancelAnimationFrame(frame);
+      stream.getTracks().forEach(track => track.stop());
+    }
+  };
+}
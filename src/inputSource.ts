@@ -0,0 +1,97 @@
+// Where frames come from: the device camera, a captured tab/screen, or a local
+// video file. Files are analyzed on the video's own clock so pausing, seeking
+// and playback speed drive the analysis loop instead of wall-clock time.
+
+export type InputSourceKind = 'camera' | 'screen' | 'file';
+
+export interface InputSourceOption {
+  kind: InputSourceKind;
+  label: string;
+  hint: string;
+}
+
+export const INPUT_SOURCES: InputSourceOption[] = [
+  { kind: 'camera', label: 'CAMERA', hint: 'Point your phone at the TV' },
+  { kind: 'screen', label: 'TAB / SCREEN', hint: 'Roast a stream playing on this computer' },
+  { kind: 'file', label: 'VIDEO FILE', hint: 'Roast recorded ads after the game' }
+];
+
+export function inputSourceSupported(kind: InputSourceKind) {
+  switch (kind) {
+    case 'camera':
+      return !!navigator.mediaDevices?.getUserMedia;
+    case 'screen':
+      return !!navigator.mediaDevices?.getDisplayMedia;
+    case 'file':
+      return true;
+  }
+}
+
+export function openInputStream(kind: 'camera' | 'screen'): Promise<MediaStream> {
+  if (kind === 'screen') {
+    return navigator.mediaDevices.getDisplayMedia({ video: { frameRate: { ideal: 15 } }, audio: false });
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } }
+  });
+}
+
+// Drop-in clock for the analysis scheduler (now/setTimer/clearTimer)
+export interface MediaClock {
+  now: () => number;
+  setTimer: (fn: () => void, ms: number) => unknown;
+  clearTimer: (handle: unknown) => void;
+  dispose: () => void;
+}
+
+// Counts milliseconds of video actually played: it stands still while paused,
+// runs at the playback rate and ignores the jump when seeking. A seek fires
+// pending timers straight away, since the picture is now something new.
+export function createMediaClock(video: HTMLVideoElement): MediaClock {
+  let playedMs = 0;
+  let lastTime = video.currentTime;
+  let nextId = 1;
+  const timers = new Map<number, { fn: () => void; dueAt: number }>();
+
+  const fire = (all: boolean) => {
+    for (const [id, timer] of [...timers]) {
+      if (all || playedMs >= timer.dueAt) {
+        timers.delete(id);
+        timer.fn();
+      }
+    }
+  };
+
+  const onTimeUpdate = () => {
+    if (video.seeking) return;
+    const time = video.currentTime;
+    if (time > lastTime) playedMs += (time - lastTime) * 1000;
+    lastTime = time;
+    fire(false);
+  };
+
+  const onSeeked = () => {
+    lastTime = video.currentTime;
+    fire(true);
+  };
+
+  video.addEventListener('timeupdate', onTimeUpdate);
+  video.addEventListener('seeked', onSeeked);
+
+  return {
+    now: () => playedMs,
+    setTimer(fn, ms) {
+      const id = nextId++;
+      timers.set(id, { fn, dueAt: playedMs + ms });
+      return id;
+    },
+    clearTimer(handle) {
+      timers.delete(handle as number);
+    },
+    dispose() {
+      timers.clear();
+      video.removeEventListener('timeupdate', onTimeUpdate);
+      video.removeEventListener('seeked', onSeeked);
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { lineupSize, placeInLineup, seenLineupAds, type Lineup } from './lineup';
+import type { AdSession } from './types';
+
+const LINEUP: Lineup = {
+  broadcast: 'Test Bowl',
+  brands: [
+    { id: 'doritos', name: 'Doritos', category: 'snacks', ads: [{ id: 'doritos-1', title: 'One' }, { id: 'doritos-2', title: 'Two' }] },
+    { id: 'toyota', name: 'Toyota', category: 'auto', ads: [{ id: 'toyota-1', title: 'Toyota' }] }
+  ]
+};
+
+const aired = (lineupAdId?: string): AdSession => ({
+  id: `${lineupAdId}`,
+  brandGuess: 'Doritos',
+  oneLiner: '',
+  commentaryLog: [],
+  tropeCounts: {},
+  startTime: 0,
+  endTime: 0,
+  lineupAdId
+});
+
+describe('placeInLineup', () => {
+  it('takes the brand’s first ad not seen yet', () => {
+    expect(placeInLineup(LINEUP, 'doritos', [])).toEqual({ adId: 'doritos-1', repeat: false });
+    expect(placeInLineup(LINEUP, 'doritos', [aired('doritos-1')])).toEqual({ adId: 'doritos-2', repeat: false });
+  });
+
+  it('calls the most recently seen ad a repeat once all have aired', () => {
+    const completed = [aired('doritos-2'), aired('toyota-1'), aired('doritos-1')];
+    expect(placeInLineup(LINEUP, 'doritos', completed)).toEqual({ adId: 'doritos-1', repeat: true });
+  });
+
+  it('returns null for a brand not in the lineup', () => {
+    expect(placeInLineup(LINEUP, 'honda', [])).toBeNull();
+  });
+});
+
+describe('lineup counts', () => {
+  it('count every lineup ad and each distinct one seen', () => {
+    expect(lineupSize(LINEUP)).toBe(3);
+    expect(seenLineupAds([aired('doritos-1'), aired('doritos-1'), aired()])).toBe(1);
+  });
+});
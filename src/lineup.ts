@@ -0,0 +1,53 @@
+// Tonight's expected ads, loaded from the server's lineup file. The server
+// snaps brand guesses onto lineup brands; here each finished ad is pinned to
+// one of its brand's lineup ads so we can count what's been seen and spot
+// the same ad airing again.
+import type { AdSession } from './types';
+
+export interface LineupAd {
+  id: string;
+  title: string;
+}
+
+export interface LineupBrand {
+  id: string;
+  name: string;
+  category: string;
+  ads: LineupAd[];
+}
+
+export interface Lineup {
+  broadcast: string;
+  brands: LineupBrand[];
+}
+
+export async function fetchLineup(): Promise<Lineup | null> {
+  try {
+    const response = await fetch('/api/lineup');
+    if (!response.ok) return null;
+    const data = await response.json();
+    return Array.isArray(data.brands) ? data : null;
+  } catch (err) {
+    console.error('Lineup error:', err);
+    return null;
+  }
+}
+
+export const lineupSize = (lineup: Lineup) =>
+  lineup.brands.reduce((total, brand) => total + brand.ads.length, 0);
+
+// The brand's first lineup ad not seen yet; once they've all aired, the most
+// recently seen one is airing again
+export function placeInLineup(lineup: Lineup, brandId: string, completedAds: AdSession[]): { adId: string; repeat: boolean } | null {
+  const brand = lineup.brands.find(b => b.id === brandId);
+  if (!brand) return null;
+  const seen = completedAds.filter(ad => ad.lineupAdId).map(ad => ad.lineupAdId);
+  const unseen = brand.ads.find(ad => !seen.includes(ad.id));
+  if (unseen) return { adId: unseen.id, repeat: false };
+  const brandAdIds = brand.ads.map(ad => ad.id);
+  const last = [...seen].reverse().find(id => id && brandAdIds.includes(id));
+  return { adId: last ?? brand.ads[0].id, repeat: true };
+}
+
+export const seenLineupAds = (completedAds: AdSession[]) =>
+  new Set(completedAds.map(ad => ad.lineupAdId).filter(Boolean)).size;
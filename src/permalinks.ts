@@ -0,0 +1,74 @@
+// Client API for shareable permalinks. Published links and their deletion
+// tokens are remembered in localStorage so a roast is only published once
+// and can be taken down later from the same device.
+import type { AdSession } from './types';
+import { tropeLabel } from './tropes';
+
+export interface Permalink {
+  id: string;
+  url: string;
+  deleteToken: string;
+}
+
+const PERMALINKS_KEY = 'slopbowl.permalinks';
+const SHARE_TROPES = 8;
+
+export function loadPermalinks(): Record<string, Permalink> {
+  try {
+    return JSON.parse(localStorage.getItem(PERMALINKS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function savePermalinks(links: Record<string, Permalink>) {
+  try {
+    localStorage.setItem(PERMALINKS_KEY, JSON.stringify(links));
+  } catch {
+    // Storage full or disabled: the link still works, it just can't be reused
+  }
+}
+
+// Cache key for a single ad or for a reel of exactly these ads
+export const permalinkKey = (ads: AdSession[]) => ads.map(ad => ad.id).join('+');
+
+const shareableAd = (ad: AdSession) => ({
+  brandGuess: ad.brandGuess,
+  oneLiner: ad.oneLiner,
+  tropes: Object.entries(ad.tropeCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SHARE_TROPES)
+    .map(([key]) => tropeLabel(key)),
+  scorecard: ad.scorecard ? { overall: ad.scorecard.overall, verdict: ad.scorecard.verdict } : undefined
+});
+
+// Publish (or reuse) a permalink for one ad or a whole reel
+export async function publishPermalink(ads: AdSession[], title?: string): Promise<Permalink> {
+  const key = permalinkKey(ads);
+  const existing = loadPermalinks()[key];
+  if (existing) return existing;
+
+  const response = await fetch('/api/reels', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title, ads: ads.map(shareableAd) })
+  });
+  if (!response.ok) throw new Error(`Permalink error: ${response.status}`);
+  const link: Permalink = await response.json();
+  savePermalinks({ ...loadPermalinks(), [key]: link });
+  return link;
+}
+
+// Take a published permalink down; forgets it locally either way
+export async function unpublishPermalink(key: string) {
+  const links = loadPermalinks();
+  const link = links[key];
+  if (!link) return;
+  delete links[key];
+  savePermalinks(links);
+  const response = await fetch(`/api/reels/${link.id}`, {
+    method: 'DELETE',
+    headers: { 'X-Delete-Token': link.deleteToken }
+  });
+  if (!response.ok && response.status !== 404) throw new Error(`Unpublish error: ${response.status}`);
+}
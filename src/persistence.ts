@@ -0,0 +1,263 @@
+// IndexedDB persistence for game nights: the completed ads, the full
+// commentary timeline and the analysis budget survive reloads and killed tabs.
+// Timeline lines and their frame thumbnails live in stores of their own, so a
+// save writes only the lines added since the last one.
+import type { AdSession, CommentaryEntry } from './types';
+
+const DB_NAME = 'slopbowl';
+const DB_VERSION = 3;
+const STORE = 'sessions';
+// One small SessionSummary per night, so the history list never loads whole sessions
+const SUMMARY_STORE = 'summaries';
+// Timeline lines keyed [sessionId, entry id]; thumbnails keyed [sessionId, entryId]
+const TIMELINE_STORE = 'timeline';
+const THUMBNAIL_STORE = 'thumbnails';
+
+// Bump when the session record changes shape, and add a step to MIGRATIONS
+export const SCHEMA_VERSION = 2;
+
+// Offer to resume a night only if it was touched this recently
+const RESUME_WINDOW_MS = 12 * 60 * 60 * 1000;
+const MAX_TIMELINE_ENTRIES = 2000;
+
+export interface StoredSession {
+  schemaVersion: number;
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  personaId: string;
+  analysisMs: number;
+  sessionToken?: string; // server budget token, so a resumed night keeps its budget
+  completedAds: AdSession[];
+  timeline: CommentaryEntry[]; // read from the timeline store, not kept on the record
+}
+
+type SessionRecord = Omit<StoredSession, 'timeline'>;
+
+export interface SessionSummary {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  adCount: number;
+  brands: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// MIGRATIONS[n] upgrades a record from schema n to n + 1
+const MIGRATIONS: Record<number, (record: UnknownRecord) => UnknownRecord> = {
+  // The timeline moved to its own store (copied over by the version 3 upgrade)
+  1: ({ timeline: _timeline, ...record }) => record
+};
+
+// Only what the rest of the app relies on is checked; anything else rides along
+function isCurrentSession(record: UnknownRecord): record is UnknownRecord & SessionRecord {
+  return record.schemaVersion === SCHEMA_VERSION &&
+    typeof record.id === 'string' &&
+    typeof record.startedAt === 'number' &&
+    typeof record.updatedAt === 'number' &&
+    Array.isArray(record.completedAds);
+}
+
+function migrate(record: unknown): SessionRecord | null {
+  if (!isRecord(record) || typeof record.id !== 'string') return null;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  let current: UnknownRecord = { ...record, schemaVersion: version };
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    version++;
+    current = { ...step(current), schemaVersion: version };
+  }
+  // Records from a newer build than this one can't be trusted
+  return isCurrentSession(current) ? current : null;
+}
+
+const summarize = (session: SessionRecord): SessionSummary => ({
+  id: session.id,
+  startedAt: session.startedAt,
+  updatedAt: session.updatedAt,
+  adCount: session.completedAds.length,
+  brands: [...new Set(session.completedAds.map(ad => ad.brandGuess))]
+});
+
+// Every key in a per-session store starts with the session id
+const sessionRange = (sessionId: string) => IDBKeyRange.bound([sessionId], [sessionId, []]);
+
+// Fill the stores added since oldVersion from the sessions already saved:
+// summaries (version 2), then timelines and thumbnails split off (version 3)
+function upgradeSessions(transaction: IDBTransaction, oldVersion: number) {
+  const cursorRequest = transaction.objectStore(STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const stored: unknown = cursor.value;
+    if (oldVersion < 3 && isRecord(stored) && Array.isArray(stored.timeline)) {
+      for (const line of stored.timeline) {
+        if (!isRecord(line) || typeof line.id !== 'string') continue;
+        const { thumbnail, ...entry } = line;
+        transaction.objectStore(TIMELINE_STORE).put({ ...entry, sessionId: stored.id });
+        if (typeof thumbnail === 'string') {
+          transaction.objectStore(THUMBNAIL_STORE).put({ sessionId: stored.id, entryId: line.id, image: thumbnail });
+        }
+      }
+    }
+    const session = migrate(stored);
+    if (session) {
+      cursor.update(session);
+      transaction.objectStore(SUMMARY_STORE).put(summarize(session));
+    }
+    cursor.continue();
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB unavailable'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(TIMELINE_STORE)) {
+          db.createObjectStore(TIMELINE_STORE, { keyPath: ['sessionId', 'id'] });
+        }
+        if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) {
+          db.createObjectStore(THUMBNAIL_STORE, { keyPath: ['sessionId', 'entryId'] });
+        }
+        if (event.oldVersion > 0 && request.transaction) upgradeSessions(request.transaction, event.oldVersion);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, name = STORE): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Writes that must land together (a session and its summary), settled once the transaction commits
+async function writeStores(names: string[], run: (transaction: IDBTransaction) => void): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(names, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    run(transaction);
+  });
+}
+
+// The session record and summary, plus only the timeline lines added since the last save
+export async function saveSession(
+  session: Omit<SessionRecord, 'schemaVersion' | 'updatedAt'>,
+  newEntries: CommentaryEntry[] = []
+) {
+  const record: SessionRecord = { ...session, schemaVersion: SCHEMA_VERSION, updatedAt: Date.now() };
+  await writeStores([STORE, SUMMARY_STORE, TIMELINE_STORE], transaction => {
+    transaction.objectStore(STORE).put(record);
+    transaction.objectStore(SUMMARY_STORE).put(summarize(record));
+    const timeline = transaction.objectStore(TIMELINE_STORE);
+    for (const entry of newEntries) timeline.put({ ...entry, sessionId: session.id });
+  });
+}
+
+// Written once, when the frame is captured
+export async function saveThumbnail(sessionId: string, entryId: string, image: string) {
+  await withStore('readwrite', store => store.put({ sessionId, entryId, image }), THUMBNAIL_STORE);
+}
+
+// Entry id -> JPEG data URL for one night's key moments
+export async function loadThumbnails(sessionId: string): Promise<Record<string, string>> {
+  const records = await withStore<unknown[]>('readonly', store => store.getAll(sessionRange(sessionId)), THUMBNAIL_STORE);
+  const thumbnails: Record<string, string> = {};
+  for (const record of records) {
+    if (isRecord(record) && typeof record.entryId === 'string' && typeof record.image === 'string') {
+      thumbnails[record.entryId] = record.image;
+    }
+  }
+  return thumbnails;
+}
+
+const isEntry = (value: unknown): value is UnknownRecord & CommentaryEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.timestamp === 'number' && typeof value.text === 'string';
+
+async function loadTimeline(sessionId: string): Promise<CommentaryEntry[]> {
+  const records = await withStore<unknown[]>('readonly', store => store.getAll(sessionRange(sessionId)), TIMELINE_STORE);
+  return records
+    .filter(isEntry)
+    .map(({ sessionId: _sessionId, ...entry }) => entry as CommentaryEntry)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-MAX_TIMELINE_ENTRIES);
+}
+
+export async function loadSession(id: string): Promise<StoredSession | null> {
+  const record = migrate(await withStore<unknown>('readonly', store => store.get(id)));
+  return record ? { ...record, timeline: await loadTimeline(id) } : null;
+}
+
+export async function deleteSession(id: string) {
+  await writeStores([STORE, SUMMARY_STORE, TIMELINE_STORE, THUMBNAIL_STORE], transaction => {
+    transaction.objectStore(STORE).delete(id);
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(TIMELINE_STORE).delete(sessionRange(id));
+    transaction.objectStore(THUMBNAIL_STORE).delete(sessionRange(id));
+  });
+}
+
+const isSummary = (value: unknown): value is SessionSummary =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.updatedAt === 'number' &&
+  typeof value.adCount === 'number' && Array.isArray(value.brands);
+
+// Newest first, from the summary store only
+export async function listSessions(): Promise<SessionSummary[]> {
+  const summaries = await withStore<unknown[]>('readonly', store => store.index('updatedAt').getAll(), SUMMARY_STORE);
+  return summaries.filter(isSummary).reverse();
+}
+
+// The most recent night, if it's recent enough and has anything in it
+export async function findResumableSession(): Promise<StoredSession | null> {
+  const [latest] = await listSessions();
+  if (!latest || Date.now() - latest.updatedAt > RESUME_WINDOW_MS) return null;
+  const session = await loadSession(latest.id);
+  if (!session || (session.completedAds.length === 0 && session.timeline.length === 0)) return null;
+  return session;
+}
+
+// Download one night as a JSON file, key-moment thumbnails included
+export async function exportSession(id: string) {
+  const session = await loadSession(id);
+  if (!session) return;
+  const thumbnails = await loadThumbnails(id);
+  const blob = new Blob([JSON.stringify({ ...session, thumbnails }, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `slopbowl-${new Date(session.startedAt).toISOString().slice(0, 10)}-${id.slice(0, 8)}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,98 @@
+// Client side of the persona registry. Voice prompts live on the server;
+// this is just what the picker and bubbles need.
+import type { VoiceSettings } from './speech';
+
+export type BubbleAccent = 'green' | 'black' | 'red' | 'gold' | 'blue' | 'purple';
+
+export interface BannedPhraseRule {
+  pattern: string; // case-insensitive RegExp source
+  fix: 'strip' | 'drop-sentence';
+}
+
+export interface PersonaOption {
+  id: string;
+  name: string;
+  tagline: string;
+  openingLines: string[];
+  accents: BubbleAccent[];
+  speech?: VoiceSettings;
+  maxHeat: number;
+  bannedPhrases?: BannedPhraseRule[];
+}
+
+export interface PersonaSelection {
+  personaId: string;
+  heat: number;
+}
+
+export const HEAT_MIN = 1;
+export const DEFAULT_HEAT = 3;
+
+const SELECTION_KEY = 'slopbowl.persona';
+
+// Used until /api/personas answers (or if it never does)
+export const DEFAULT_PERSONA: PersonaOption = {
+  id: 'snarky',
+  name: 'Snarky',
+  tagline: 'The deadpan critic',
+  openingLines: [
+    "Alright, let's see what they're selling us...",
+    "Eyes on the screen. Let's do this.",
+    "Okay, I'm watching. Don't disappoint me.",
+    "Let's see what Madison Avenue cooked up.",
+    'Tuning in. Prepare for opinions.',
+    "Camera's rolling. So are my eyes.",
+    "I'm here. I'm watching. I'm judging.",
+    'Let the roasting commence.',
+  ],
+  accents: ['green', 'black', 'red'],
+  maxHeat: 5,
+  bannedPhrases: [
+    { pattern: '^(ah|oh|well)\\b[,.!…-]*\\s*', fix: 'strip' },
+    { pattern: '\\bnothing (says|like)\\b', fix: 'drop-sentence' }
+  ]
+};
+
+// The server's banned-phrase rules, for lines written on the client (stock
+// trope lines, bingo calls). Empty when nothing the persona may say is left.
+export function applyPersonaRules(persona: PersonaOption, text: string): string {
+  let result = text;
+  for (const rule of persona.bannedPhrases ?? []) {
+    const pattern = new RegExp(rule.pattern, 'i');
+    if (rule.fix === 'strip') {
+      result = result.replace(pattern, '');
+      result = result.charAt(0).toUpperCase() + result.slice(1);
+    } else {
+      result = result.split(/(?<=[.!?])\s+/).filter(sentence => !pattern.test(sentence)).join(' ');
+    }
+  }
+  return result.trim();
+}
+
+export async function fetchPersonas(): Promise<PersonaOption[]> {
+  const response = await fetch('/api/personas');
+  if (!response.ok) throw new Error(`Personas error: ${response.status}`);
+  const data = await response.json();
+  return Array.isArray(data.personas) && data.personas.length > 0 ? data.personas : [DEFAULT_PERSONA];
+}
+
+// Selection survives reloads within the tab's session
+export function loadPersonaSelection(): PersonaSelection {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(SELECTION_KEY) || 'null');
+    if (saved && typeof saved.personaId === 'string' && typeof saved.heat === 'number') {
+      return saved;
+    }
+  } catch {
+    // Corrupt or unavailable storage — fall through to defaults
+  }
+  return { personaId: DEFAULT_PERSONA.id, heat: DEFAULT_HEAT };
+}
+
+export function savePersonaSelection(selection: PersonaSelection) {
+  try {
+    sessionStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+  } catch {
+    // Private mode etc. — selection just won't persist
+  }
+}
@@ -0,0 +1,115 @@
+// Client API for watch-party rooms.
+import type { BubbleAccent } from './personas';
+
+export const ROOM_REACTIONS = ['😂', '🔥', '💀', '🙄', '👏', '🤮'];
+
+export interface HostRoom {
+  code: string;
+  hostToken: string;
+}
+
+export interface RoomBubble {
+  id: string;
+  text: string;
+  position: 'left' | 'right';
+  accent: BubbleAccent;
+}
+
+export interface RoomAd {
+  id: string;
+  brandGuess: string;
+  oneLiner: string;
+}
+
+export interface VoteCounts {
+  up: number;
+  down: number;
+}
+
+export type RoomEvent =
+  | ({ type: 'bubble' } & RoomBubble)
+  | { type: 'tropes'; tropes: string[] }
+  | { type: 'ads'; ads: RoomAd[] }
+  | { type: 'status'; isAnalyzing: boolean };
+
+// Everything a stream joining mid-party needs, plus this stream's voter token
+// (null once the room has handed out all it will)
+export interface RoomSnapshot {
+  code: string;
+  bubbles: RoomBubble[];
+  tropes: string[];
+  ads: RoomAd[];
+  isAnalyzing: boolean;
+  votes: Record<string, VoteCounts>;
+  viewers: number;
+  voterToken: string | null;
+}
+
+// Payload of each server-sent event on a room stream
+export interface RoomStreamEvents {
+  snapshot: RoomSnapshot;
+  bubble: RoomBubble;
+  tropes: { tropes: string[] };
+  ads: { ads: RoomAd[] };
+  status: { isAnalyzing: boolean };
+  presence: { viewers: number };
+  votes: VoteCounts & { lineId: string };
+  reaction: { emoji: string; at: number };
+  closed: { reason: string };
+}
+
+export async function createRoom(): Promise<HostRoom> {
+  const response = await fetch('/api/rooms', { method: 'POST' });
+  if (!response.ok) throw new Error(`Room error: ${response.status}`);
+  return response.json();
+}
+
+// Fire-and-forget: a dropped event just means viewers miss one update
+export function publishRoomEvent(room: HostRoom, event: RoomEvent) {
+  fetch(`/api/rooms/${room.code}/events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Host-Token': room.hostToken },
+    body: JSON.stringify(event)
+  }).catch(err => console.error('Room publish error:', err));
+}
+
+export async function endRoom(room: HostRoom) {
+  try {
+    await fetch(`/api/rooms/${room.code}`, { method: 'DELETE', headers: { 'X-Host-Token': room.hostToken } });
+  } catch {
+    // The room expires on its own once the host stream drops
+  }
+}
+
+export async function sendReaction(code: string, emoji: string) {
+  await fetch(`/api/rooms/${code}/reactions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ emoji })
+  });
+}
+
+// The voter token comes from the room stream's snapshot; the server only
+// counts votes from tokens it handed out
+export async function sendVote(code: string, voterToken: string, lineId: string, vote: 1 | -1): Promise<VoteCounts | null> {
+  const response = await fetch(`/api/rooms/${code}/votes`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Voter-Token': voterToken },
+    body: JSON.stringify({ lineId, vote })
+  });
+  return response.ok ? response.json() : null;
+}
+
+export function roomStreamUrl(code: string, hostToken?: string) {
+  return `/api/rooms/${code}/stream${hostToken ? `?hostToken=${encodeURIComponent(hostToken)}` : ''}`;
+}
+
+export function roomLink(code: string) {
+  return `${window.location.origin}/?room=${code}`;
+}
+
+// Room code from ?room=CODE, if the page was opened from an invite link
+export function roomCodeFromUrl(): string | null {
+  const code = new URLSearchParams(window.location.search).get('room');
+  return code ? code.trim().toUpperCase() : null;
+}
@@ -0,0 +1,96 @@
+// Ad scorecards and the game-night leaderboard.
+import type { AdSession, Scorecard } from './types';
+import { sessionHeaders } from './budget';
+
+export interface LeaderboardAward {
+  id: string;
+  title: string;
+  ad: AdSession;
+  detail: string;
+}
+
+type ScoredAd = AdSession & { scorecard: Scorecard };
+
+export interface ScoreResult {
+  scorecard: Scorecard;
+  oneLiner: string | null; // the judge's closing line, for an ad saved without one
+}
+
+// Ads sent with an empty oneLiner get a closing one back with their scorecard
+export async function scoreAd(ad: AdSession, sessionToken: string | null): Promise<ScoreResult | null> {
+  try {
+    const response = await fetch('/api/score', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...sessionHeaders(sessionToken) },
+      body: JSON.stringify({
+        ad: {
+          brandGuess: ad.brandGuess,
+          oneLiner: ad.oneLiner,
+          durationSec: (ad.endTime - ad.startTime) / 1000,
+          commentaryLog: ad.commentaryLog,
+          tropeCounts: ad.tropeCounts
+        }
+      })
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (!data.scorecard) return null;
+    return { scorecard: data.scorecard, oneLiner: typeof data.oneLiner === 'string' && data.oneLiner ? data.oneLiner : null };
+  } catch (err) {
+    console.error('Scorecard error:', err);
+    return null;
+  }
+}
+
+const isScored = (ad: AdSession): ad is ScoredAd => !!ad.scorecard;
+
+// Best first; ties go to the ad that aired first
+export function rankAds(ads: AdSession[]): ScoredAd[] {
+  return ads
+    .filter(isScored)
+    .sort((a, b) => b.scorecard.overall - a.scorecard.overall || a.startTime - b.startTime);
+}
+
+// Superlatives for the night; each needs at least one scored ad
+export function leaderboardAwards(ads: AdSession[]): LeaderboardAward[] {
+  const ranked = rankAds(ads);
+  if (ranked.length === 0) return [];
+
+  const top = (axis: keyof Omit<Scorecard, 'verdict'>) =>
+    ranked.reduce((best, ad) => (ad.scorecard[axis] > best.scorecard[axis] ? ad : best));
+
+  const awards: LeaderboardAward[] = [
+    { id: 'best', title: 'Best in Show', ad: ranked[0], detail: `${ranked[0].scorecard.overall}/10 overall` }
+  ];
+  if (ranked.length > 1) {
+    const worst = ranked[ranked.length - 1];
+    awards.push({ id: 'worst', title: 'Pure Slop', ad: worst, detail: `${worst.scorecard.overall}/10 overall` });
+  }
+  const celebrity = top('celebrityOveruse');
+  awards.push({ id: 'celebrity', title: 'Celebrity Crutch', ad: celebrity, detail: `${celebrity.scorecard.celebrityOveruse}/10 celebrity overuse` });
+  const tropes = top('tropeDensity');
+  awards.push({ id: 'tropes', title: 'Trope Buffet', ad: tropes, detail: `${tropes.scorecard.tropeDensity}/10 trope density` });
+  const confusing = top('whatWasItSelling');
+  awards.push({ id: 'confusing', title: 'What Was That?', ad: confusing, detail: `${confusing.scorecard.whatWasItSelling}/10 baffling` });
+  return awards;
+}
+
+export function formatLeaderboard(ads: AdSession[]): string {
+  const ranked = rankAds(ads);
+  if (ranked.length === 0) return 'SLOPBOWL LEADERBOARD\n\nNo ads scored yet.';
+
+  const mvp = ranked[0];
+  const lines = ranked.map((ad, i) => `${i + 1}. ${ad.brandGuess} — ${ad.scorecard.overall}/10`);
+  const awards = leaderboardAwards(ads).slice(1).map(award => `${award.title}: ${award.ad.brandGuess}`);
+
+  return [
+    'SLOPBOWL LEADERBOARD',
+    '',
+    `🏆 SLOP BOWL MVP: ${mvp.brandGuess} (${mvp.scorecard.overall}/10)`,
+    mvp.scorecard.verdict ? `"${mvp.scorecard.verdict}"` : '',
+    '',
+    ...lines,
+    '',
+    ...awards
+  ].join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
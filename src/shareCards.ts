@@ -0,0 +1,224 @@
+// Branded PNG roast cards drawn on a canvas: the ad's thumbnail, brand guess,
+// one-liner, trope tags and the logo. Shared as files where the Web Share API
+// takes them, downloaded everywhere else.
+import type { AdSession } from './types';
+import { tropeLabel } from './tropes';
+
+export type CardFormat = 'portrait' | 'square';
+
+interface CardLayout {
+  width: number;
+  height: number;
+  frameHeight: number;
+  brandSize: number;
+  linerSize: number;
+  linerMaxLines: number;
+}
+
+const LAYOUTS: Record<CardFormat, CardLayout> = {
+  portrait: { width: 1080, height: 1350, frameHeight: 608, brandSize: 104, linerSize: 44, linerMaxLines: 6 },
+  square: { width: 1080, height: 1080, frameHeight: 480, brandSize: 88, linerSize: 40, linerMaxLines: 4 }
+};
+
+const COLORS = {
+  background: '#0a0a0a',
+  panel: '#141414',
+  text: '#f0f0f0',
+  muted: '#888',
+  red: '#ff3333',
+  slime: '#8aff00'
+};
+
+const MARGIN = 64;
+const TAG_SIZE = 26;
+const MAX_TAGS = 6;
+const LOGO_HEIGHT = 120;
+const SITE = 'slopbowl.ralph.world';
+
+function loadImage(src: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+}
+
+async function loadFonts() {
+  try {
+    await Promise.all([
+      document.fonts.load('100px "Bebas Neue"'),
+      document.fonts.load('bold 40px "Space Mono"'),
+      document.fonts.load('26px "Space Mono"')
+    ]);
+  } catch {
+    // Fall back to whatever the browser has
+  }
+}
+
+// Greedy word wrap by measured width, with an ellipsis on the last line
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  const words = text.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length; i++) {
+    const next = line ? `${line} ${words[i]}` : words[i];
+    if (ctx.measureText(next).width <= maxWidth || !line) {
+      line = next;
+      continue;
+    }
+    lines.push(line);
+    line = words[i];
+    if (lines.length === maxLines) {
+      let last = lines[maxLines - 1];
+      while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+      lines[maxLines - 1] = `${last.trimEnd()}…`;
+      return lines;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Cover-fit the thumbnail into the frame area, with the app's scanlines on top
+function drawFrame(ctx: CanvasRenderingContext2D, image: HTMLImageElement | null, layout: CardLayout) {
+  const { width, frameHeight } = layout;
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(0, 0, width, frameHeight);
+  if (image) {
+    const scale = Math.max(width / image.naturalWidth, frameHeight / image.naturalHeight);
+    const w = image.naturalWidth * scale;
+    const h = image.naturalHeight * scale;
+    ctx.drawImage(image, (width - w) / 2, (frameHeight - h) / 2, w, h);
+  }
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.18)';
+  for (let y = 0; y < frameHeight; y += 4) ctx.fillRect(0, y, width, 2);
+  const fade = ctx.createLinearGradient(0, frameHeight * 0.6, 0, frameHeight);
+  fade.addColorStop(0, 'rgba(10, 10, 10, 0)');
+  fade.addColorStop(1, COLORS.background);
+  ctx.fillStyle = fade;
+  ctx.fillRect(0, 0, width, frameHeight);
+}
+
+function drawScoreBadge(ctx: CanvasRenderingContext2D, overall: number, layout: CardLayout) {
+  const label = `${overall}/10`;
+  ctx.font = `${Math.round(layout.brandSize * 0.7)}px "Bebas Neue", sans-serif`;
+  const w = ctx.measureText(label).width + 48;
+  const h = layout.brandSize * 0.85;
+  ctx.fillStyle = COLORS.red;
+  ctx.fillRect(layout.width - MARGIN - w, MARGIN, w, h);
+  ctx.fillStyle = COLORS.text;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, layout.width - MARGIN - w + 24, MARGIN + h / 2 + 4);
+}
+
+// Trope pills, wrapping onto at most two rows; returns the y below them
+function drawTags(ctx: CanvasRenderingContext2D, tags: string[], y: number, layout: CardLayout) {
+  ctx.font = `${TAG_SIZE}px "Space Mono", monospace`;
+  ctx.textBaseline = 'middle';
+  const height = TAG_SIZE + 24;
+  let x = MARGIN;
+  let row = 0;
+  for (const tag of tags) {
+    const w = ctx.measureText(tag).width + 32;
+    if (x + w > layout.width - MARGIN) {
+      if (++row === 2) break;
+      x = MARGIN;
+    }
+    const top = y + row * (height + 14);
+    ctx.strokeStyle = COLORS.red;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(x, top, w, height);
+    ctx.fillStyle = COLORS.red;
+    ctx.fillText(tag, x + 16, top + height / 2 + 2);
+    x += w + 14;
+  }
+  return y + (row + 1) * (height + 14);
+}
+
+export async function renderShareCard(ad: AdSession, format: CardFormat): Promise<Blob> {
+  const layout = LAYOUTS[format];
+  const [frame, logo] = await Promise.all([
+    ad.thumbnail ? loadImage(ad.thumbnail) : Promise.resolve(null),
+    loadImage('/SlopLogo.png'),
+    loadFonts()
+  ]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, layout.width, layout.height);
+  drawFrame(ctx, frame, layout);
+  if (ad.scorecard) drawScoreBadge(ctx, ad.scorecard.overall, layout);
+
+  const textWidth = layout.width - MARGIN * 2;
+  let y = layout.frameHeight - layout.brandSize * 0.35;
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = `${layout.brandSize}px "Bebas Neue", sans-serif`;
+  ctx.fillStyle = COLORS.slime;
+  ctx.fillText(wrapText(ctx, ad.brandGuess.toUpperCase(), textWidth, 1)[0] ?? '', MARGIN, y);
+
+  y += layout.linerSize * 1.6;
+  ctx.font = `bold ${layout.linerSize}px "Space Mono", monospace`;
+  ctx.fillStyle = COLORS.text;
+  for (const line of wrapText(ctx, ad.oneLiner, textWidth, layout.linerMaxLines)) {
+    ctx.fillText(line, MARGIN, y);
+    y += layout.linerSize * 1.35;
+  }
+
+  const tags = Object.entries(ad.tropeCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TAGS)
+    .map(([key]) => tropeLabel(key));
+  if (tags.length > 0) drawTags(ctx, tags, y, layout);
+
+  const footerY = layout.height - MARGIN - LOGO_HEIGHT;
+  if (logo) {
+    const logoWidth = (logo.naturalWidth / logo.naturalHeight) * LOGO_HEIGHT;
+    ctx.drawImage(logo, MARGIN, footerY, logoWidth, LOGO_HEIGHT);
+  }
+  ctx.font = `${TAG_SIZE}px "Space Mono", monospace`;
+  ctx.fillStyle = COLORS.muted;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(SITE, layout.width - MARGIN, footerY + LOGO_HEIGHT / 2);
+  ctx.textAlign = 'left';
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Card encode failed'))), 'image/png');
+  });
+}
+
+export const adFilename = (ad: AdSession, suffix: string) =>
+  `slopbowl-${ad.brandGuess.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'roast'}-${suffix}`;
+
+const cardFilename = (ad: AdSession, format: CardFormat) => adFilename(ad, `${format}.png`);
+
+// Share a file through the Web Share API, or download it where files can't be shared
+export async function shareFile(file: File, text: string) {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: 'SLOPBOWL', text });
+      return;
+    } catch (err) {
+      // The user backing out of the share sheet isn't a reason to download
+      if ((err as DOMException).name === 'AbortError') return;
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+export async function shareCardImage(ad: AdSession, format: CardFormat, text: string) {
+  const blob = await renderShareCard(ad, format);
+  await shareFile(new File([blob], cardFilename(ad, format), { type: 'image/png' }), text);
+}
@@ -0,0 +1,68 @@
+// Spoken commentary via the browser's speech synthesis.
+
+export interface VoiceSettings {
+  voiceNames: string[]; // preferred voices, first available wins
+  lang: string;
+  rate: number;
+  pitch: number;
+}
+
+export const DEFAULT_VOICE: VoiceSettings = {
+  voiceNames: [],
+  lang: 'en-US',
+  rate: 1,
+  pitch: 1
+};
+
+// Longest we'll wait on an utterance; some browsers never fire onend
+const MS_PER_CHAR = 90;
+const MIN_SPEECH_TIMEOUT_MS = 3000;
+
+export const speechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+function pickVoice(settings: VoiceSettings): SpeechSynthesisVoice | null {
+  const voices = window.speechSynthesis.getVoices();
+  for (const name of settings.voiceNames) {
+    const voice = voices.find(v => v.name.includes(name));
+    if (voice) return voice;
+  }
+  return voices.find(v => v.lang === settings.lang) || null;
+}
+
+// Speak one line; resolves when it finishes, fails, or times out.
+// Ducked lines play quieter and faster so a backed-up queue can catch up.
+export function speak(text: string, settings: VoiceSettings, duck = false): Promise<void> {
+  if (!speechSupported()) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = pickVoice(settings);
+    if (voice) utterance.voice = voice;
+    utterance.lang = settings.lang;
+    utterance.rate = settings.rate * (duck ? 1.25 : 1);
+    utterance.pitch = settings.pitch;
+    utterance.volume = duck ? 0.6 : 1;
+
+    const timeout = setTimeout(done, Math.max(MIN_SPEECH_TIMEOUT_MS, (text.length * MS_PER_CHAR) / utterance.rate));
+    function done() {
+      clearTimeout(timeout);
+      resolve();
+    }
+    utterance.onend = done;
+    utterance.onerror = done;
+
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+export function cancelSpeech() {
+  if (speechSupported()) window.speechSynthesis.cancel();
+}
+
+// iOS only allows speech after a user gesture; call this from the toggle's click
+export function primeSpeech() {
+  if (!speechSupported()) return;
+  const utterance = new SpeechSynthesisUtterance('');
+  utterance.volume = 0;
+  window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,111 @@
+// Representative frame thumbnails kept on each AdSession for share cards.
+// Frames are downscaled before storage and can have faces blurred, since the
+// camera often catches the room as well as the TV.
+
+const THUMBNAIL_MAX_WIDTH = 480;
+// Per-line frames on the timeline; a night can keep a couple of thousand
+export const TIMELINE_THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_QUALITY = 0.7;
+const FACE_BLUR_PX = 14;
+// Used when the browser has no FaceDetector: better a soft frame than a face
+const FALLBACK_BLUR_PX = 6;
+const BLUR_FACES_KEY = 'slopbowl.blurFaces';
+
+// Shape Detection API; only some Chromium builds ship it
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorLike {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+let faceDetector: FaceDetectorLike | null | undefined;
+
+function getFaceDetector(): FaceDetectorLike | null {
+  if (faceDetector === undefined) {
+    const Detector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+    try {
+      faceDetector = Detector ? new Detector({ fastMode: true, maxDetectedFaces: 10 }) : null;
+    } catch {
+      faceDetector = null;
+    }
+  }
+  return faceDetector;
+}
+
+export function loadBlurFaces(): boolean {
+  try {
+    return localStorage.getItem(BLUR_FACES_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+}
+
+export function saveBlurFaces(blurFaces: boolean) {
+  try {
+    localStorage.setItem(BLUR_FACES_KEY, String(blurFaces));
+  } catch {
+    // Preference just won't persist
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode frame'));
+    image.src = src;
+  });
+}
+
+async function blurFaceRegions(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) {
+  const detector = getFaceDetector();
+  if (!detector) {
+    ctx.filter = `blur(${FALLBACK_BLUR_PX}px)`;
+    ctx.drawImage(canvas, 0, 0);
+    ctx.filter = 'none';
+    return;
+  }
+
+  const faces = await detector.detect(canvas);
+  for (const { boundingBox: box } of faces) {
+    // Pad the box so hairlines and chins go too
+    const pad = Math.max(box.width, box.height) * 0.2;
+    const x = Math.max(0, box.x - pad);
+    const y = Math.max(0, box.y - pad);
+    const w = Math.min(canvas.width - x, box.width + pad * 2);
+    const h = Math.min(canvas.height - y, box.height + pad * 2);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.clip();
+    ctx.filter = `blur(${FACE_BLUR_PX}px)`;
+    ctx.drawImage(canvas, 0, 0);
+    ctx.restore();
+  }
+}
+
+// Downscale a captured frame (data URL) to a small JPEG data URL; null on failure
+export async function createThumbnail(
+  frame: string,
+  { blurFaces, maxWidth = THUMBNAIL_MAX_WIDTH }: { blurFaces: boolean; maxWidth?: number }
+): Promise<string | null> {
+  try {
+    const image = await loadImage(frame);
+    const scale = Math.min(1, maxWidth / image.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    if (blurFaces) await blurFaceRegions(canvas, ctx);
+    return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+  } catch (err) {
+    console.error('Thumbnail error:', err);
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimeline, formatOffset, isKeyMoment, roastFromEntry } from './timeline';
+import type { AdSession, CommentaryEntry } from './types';
+
+const STARTED_AT = 1_000_000;
+
+const line = (offsetMs: number, extra: Partial<CommentaryEntry> = {}): CommentaryEntry => ({
+  id: `${STARTED_AT + offsetMs}`,
+  timestamp: STARTED_AT + offsetMs,
+  text: `Line at ${offsetMs}`,
+  ...extra
+});
+
+const ad = (id: string, fromMs: number, toMs: number, extra: Partial<AdSession> = {}): AdSession => ({
+  id,
+  brandGuess: id,
+  oneLiner: `${id} one-liner`,
+  commentaryLog: [],
+  tropeCounts: {},
+  startTime: STARTED_AT + fromMs,
+  endTime: STARTED_AT + toMs,
+  ...extra
+});
+
+describe('buildTimeline', () => {
+  it('sorts lines, assigns them to ads and marks each ad’s first line', () => {
+    const rows = buildTimeline(
+      [line(40_000), line(5_000), line(12_000), line(90_000)],
+      [ad('Ram', 0, 30_000), ad('Doritos', 30_000, 60_000)],
+      STARTED_AT
+    );
+    expect(rows.map(r => [r.offsetMs, r.ad?.id ?? null, r.adStart])).toEqual([
+      [5_000, 'Ram', true],
+      [12_000, 'Ram', false],
+      [40_000, 'Doritos', true],
+      [90_000, null, true]
+    ]);
+  });
+
+  it('keeps lines with the ad they name when a replayed spot overlaps an earlier ad', () => {
+    const rows = buildTimeline(
+      [line(5_000, { adId: 'Ram' }), line(6_000, { adId: 'Ram again' }), line(7_000, { adId: 'still airing' })],
+      [ad('Ram', 0, 30_000), ad('Ram again', 0, 30_000)],
+      STARTED_AT
+    );
+    expect(rows.map(r => r.ad?.id ?? null)).toEqual(['Ram', 'Ram again', null]);
+  });
+
+  it('flags confidence and theory moves within an ad only', () => {
+    const rows = buildTimeline(
+      [
+        line(1_000, { confidence: 'guessing', theory: 'Truck ad' }),
+        line(2_000, { confidence: 'guessing', theory: 'Truck ad' }),
+        line(3_000, { confidence: 'certain', theory: 'Ram truck ad' }),
+        line(31_000, { confidence: 'certain', theory: 'Ram truck ad' })
+      ],
+      [ad('Ram', 0, 30_000), ad('Doritos', 30_000, 60_000)],
+      STARTED_AT
+    );
+    expect(rows.map(r => [r.confidenceChange, r.theoryChanged])).toEqual([
+      [{ from: undefined, to: 'guessing' }, true],
+      [null, false],
+      [{ from: 'guessing', to: 'certain' }, true],
+      [{ from: undefined, to: 'certain' }, true]
+    ]);
+  });
+});
+
+describe('isKeyMoment', () => {
+  it('keeps an ad’s first line and lines where confidence or theory moved', () => {
+    const first = line(0, { confidence: 'guessing', theory: 'Truck ad' });
+    expect(isKeyMoment(null, first)).toBe(true);
+    expect(isKeyMoment(first, line(1_000, { confidence: 'guessing', theory: 'Truck ad' }))).toBe(false);
+    expect(isKeyMoment(first, line(1_000, { confidence: 'guessing' }))).toBe(false);
+    expect(isKeyMoment(first, line(1_000, { confidence: 'suspicious', theory: 'Truck ad' }))).toBe(true);
+    expect(isKeyMoment(first, line(1_000, { confidence: 'guessing', theory: 'Ram ad' }))).toBe(true);
+  });
+});
+
+describe('formatOffset', () => {
+  it('shows minutes and seconds, adding hours past the first', () => {
+    expect(formatOffset(0)).toBe('0:00');
+    expect(formatOffset(247_900)).toBe('4:07');
+    expect(formatOffset(3_847_000)).toBe('1:04:07');
+  });
+});
+
+describe('roastFromEntry', () => {
+  it('uses the line’s own frame, falling back to its ad’s thumbnail', () => {
+    const entry = line(5_000, { brandGuess: 'Ram' });
+    const airing = ad('Ram', 0, 30_000, { thumbnail: 'data:ad' });
+    expect(roastFromEntry(entry, airing, 'data:frame')).toMatchObject({
+      id: `Ram-${entry.id}`,
+      oneLiner: entry.text,
+      thumbnail: 'data:frame'
+    });
+    expect(roastFromEntry(entry, airing).thumbnail).toBe('data:ad');
+    expect(roastFromEntry(entry, null)).toMatchObject({ id: `live-${entry.id}`, brandGuess: 'Ram' });
+    expect(roastFromEntry(entry, null)).not.toHaveProperty('thumbnail');
+  });
+});
@@ -0,0 +1,84 @@
+// A night's commentary laid out in time: each line at its offset from the
+// start of the session, tagged with the ad it aired during, and flagged where
+// the model's confidence or theory moved.
+import type { AdSession, CommentaryEntry, Confidence } from './types';
+
+export interface TimelineRow {
+  entry: CommentaryEntry;
+  offsetMs: number;
+  ad: AdSession | null; // null while the ad is still on screen
+  adStart: boolean; // first line of its ad
+  confidenceChange: { from: Confidence | undefined; to: Confidence } | null;
+  theoryChanged: boolean;
+}
+
+// Lines name the ad they aired during; one whose ad isn't saved yet belongs to
+// the ad still airing. Older lines without an ad id fall back to the ad whose
+// start and end they sit between.
+const adFor = (ads: AdSession[], entry: CommentaryEntry) =>
+  (entry.adId !== undefined
+    ? ads.find(ad => ad.id === entry.adId)
+    : ads.find(ad => entry.timestamp >= ad.startTime && entry.timestamp < ad.endTime)) ?? null;
+
+// What moved since the previous line of the same ad (null on an ad's first line)
+function changesSince(previous: CommentaryEntry | null, entry: CommentaryEntry) {
+  const lastConfidence = previous?.confidence;
+  const lastTheory = previous?.theory ?? '';
+  return {
+    confidenceChange: entry.confidence && entry.confidence !== lastConfidence
+      ? { from: lastConfidence, to: entry.confidence }
+      : null,
+    theoryChanged: !!entry.theory && entry.theory !== lastTheory
+  };
+}
+
+// Lines worth keeping a frame for: an ad's first, and wherever confidence or theory moved
+export function isKeyMoment(previous: CommentaryEntry | null, entry: CommentaryEntry): boolean {
+  const { confidenceChange, theoryChanged } = changesSince(previous, entry);
+  return !previous || !!confidenceChange || theoryChanged;
+}
+
+export function buildTimeline(entries: CommentaryEntry[], ads: AdSession[], startedAt: number): TimelineRow[] {
+  const rows: TimelineRow[] = [];
+  let previous: TimelineRow | null = null;
+  for (const entry of [...entries].sort((a, b) => a.timestamp - b.timestamp)) {
+    const ad = adFor(ads, entry);
+    const adStart = !previous || previous.ad?.id !== ad?.id;
+    // A new ad starts both fresh; only movement within an ad is a change
+    const row: TimelineRow = {
+      entry,
+      offsetMs: Math.max(0, entry.timestamp - startedAt),
+      ad,
+      adStart,
+      ...changesSince(adStart ? null : previous?.entry ?? null, entry)
+    };
+    rows.push(row);
+    previous = row;
+  }
+  return rows;
+}
+
+// 4:07, or 1:04:07 past the hour
+export function formatOffset(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// One line as a shareable roast: the line is the one-liner, on its own frame
+// (or its ad's thumbnail when that frame wasn't kept)
+export function roastFromEntry(entry: CommentaryEntry, ad: AdSession | null, frame?: string): AdSession {
+  const thumbnail = frame ?? ad?.thumbnail;
+  return {
+    id: `${ad?.id ?? 'live'}-${entry.id}`,
+    brandGuess: ad?.brandGuess ?? entry.brandGuess ?? 'Unknown Brand',
+    oneLiner: entry.text,
+    commentaryLog: [entry.text],
+    tropeCounts: ad?.tropeCounts ?? {},
+    startTime: entry.timestamp,
+    endTime: entry.timestamp,
+    ...(thumbnail ? { thumbnail } : {})
+  };
+}
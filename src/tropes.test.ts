@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { TROPE_CATALOG, countTropes, normalizeTrope, normalizeTropes, stockLineFor, tropeLabel } from './tropes';
+
+describe('normalizeTrope', () => {
+  it('maps spelling and casing variants onto one catalog trope', () => {
+    for (const text of ['golden retriever', 'Golden Retriever!', 'dog', 'Dogs']) {
+      expect(normalizeTrope(text)?.key).toBe('good-boy');
+    }
+  });
+
+  it('matches an alias inside a longer phrase', () => {
+    const result = normalizeTrope('a fluffy puppy on a couch');
+    expect(result?.key).toBe('good-boy');
+    expect(result?.confidence).toBe(0.85);
+  });
+
+  it('tolerates typos in longer phrases', () => {
+    expect(normalizeTrope('golden retreiver')?.key).toBe('good-boy');
+  });
+
+  it('keeps anything off-catalog as a free trope', () => {
+    expect(normalizeTrope('Sentient toaster')).toEqual({
+      key: 'free:sentient toaster',
+      label: 'sentient toaster',
+      trope: null,
+      confidence: 0
+    });
+  });
+
+  it('ignores blank or punctuation-only text', () => {
+    expect(normalizeTrope('  !!  ')).toBeNull();
+  });
+});
+
+describe('normalizeTropes', () => {
+  it('drops duplicates within a frame and skips non-strings', () => {
+    const tropes = normalizeTropes(['dog', 'puppy', 42 as unknown as string, 'cameo']);
+    expect(tropes.map(t => t.key)).toEqual(['good-boy', 'celebrity-cameo']);
+  });
+});
+
+describe('countTropes', () => {
+  it('counts each trope once per frame without mutating the input', () => {
+    const before = { 'good-boy': 2 };
+    const after = countTropes(before, normalizeTropes(['dog', 'cameo']));
+    expect(after).toEqual({ 'good-boy': 3, 'celebrity-cameo': 1 });
+    expect(before).toEqual({ 'good-boy': 2 });
+  });
+});
+
+describe('tropeLabel', () => {
+  it('labels catalog ids and free keys', () => {
+    expect(tropeLabel('good-boy')).toBe('Golden Retriever');
+    expect(tropeLabel('free:sentient toaster')).toBe('sentient toaster');
+  });
+});
+
+describe('stockLineFor', () => {
+  it('rotates through a trope’s stock lines', () => {
+    const trope = TROPE_CATALOG.find(t => t.id === 'good-boy')!;
+    expect(stockLineFor(trope, 0)).toBe(trope.responses[0]);
+    expect(stockLineFor(trope, 1)).toBe(trope.responses[1]);
+    expect(stockLineFor(trope, 2)).toBe(trope.responses[0]);
+  });
+});
@@ -0,0 +1,372 @@
+// Canonical ad trope taxonomy. Free-text tropes from the model are normalized
+// against it so "golden retriever", "Golden Retriever!" and "dog" all land on one tag.
+
+export type TropeCategory = 'people' | 'animals' | 'settings' | 'technique' | 'messaging';
+
+export interface Trope {
+  id: string;
+  label: string;
+  category: TropeCategory;
+  aliases: string[];
+  responses: string[]; // Snarky's stock lines, used in rotation
+}
+
+export interface NormalizedTrope {
+  key: string; // trope id, or "free:<text>" for anything off-catalog
+  label: string;
+  trope: Trope | null;
+  confidence: number; // 0-1
+}
+
+// Minimum confidence before a match counts as canonical
+export const TROPE_MATCH_THRESHOLD = 0.8;
+// Minimum confidence before Snarky chimes in with the trope's stock line
+export const STOCK_LINE_THRESHOLD = 0.9;
+
+export const TROPE_CATALOG: Trope[] = [
+  {
+    id: 'nuclear-family',
+    label: 'Nuclear Family',
+    category: 'people',
+    aliases: ['family', 'happy family', 'family dinner', 'parents and kids', 'family moment', 'multigenerational family'],
+    responses: [
+      'The Nuclear Family™, advertising\'s favorite fiction.',
+      'A family this well-lit has never argued about the thermostat.'
+    ]
+  },
+  {
+    id: 'beach-escape',
+    label: 'Beach Escape',
+    category: 'settings',
+    aliases: ['beach', 'tropical beach', 'ocean', 'island getaway', 'vacation', 'paradise'],
+    responses: [
+      'Beach setting detected. Freedom/escape narrative incoming.',
+      'Nothing sells a product like sand you\'ll never sit on.'
+    ]
+  },
+  {
+    id: 'good-boy',
+    label: 'Golden Retriever',
+    category: 'animals',
+    aliases: ['golden retriever', 'dog', 'puppy', 'retriever', 'labrador', 'cute dog', 'pup', 'dogs'],
+    responses: [
+      'GOLDEN RETRIEVER ALERT. Trust score artificially inflated.',
+      'A dog. The ad industry\'s emotional cheat code.'
+    ]
+  },
+  {
+    id: 'performative-laughter',
+    label: 'Performative Laughter',
+    category: 'people',
+    aliases: ['laughing', 'laughter', 'people laughing', 'friends laughing', 'laughing at salad', 'smiling', 'forced smiles'],
+    responses: [
+      'Performative laughter. Nobody is this happy about a product.',
+      'That laugh was rehearsed more than the product was tested.'
+    ]
+  },
+  {
+    id: 'slow-motion',
+    label: 'Slow Motion',
+    category: 'technique',
+    aliases: ['slow motion', 'slow mo', 'slowmo', 'slow-motion shot', 'dramatic slow motion'],
+    responses: [
+      'Slow-mo means they want you to FEEL something you shouldn\'t.',
+      'Slow motion: for when the product can\'t keep up at normal speed.'
+    ]
+  },
+  {
+    id: 'white-void',
+    label: 'White Void',
+    category: 'settings',
+    aliases: ['white background', 'white void', 'minimalist', 'clean background', 'studio background'],
+    responses: [
+      'Clinical white void. "Clean" and "pure" subliminal messaging.',
+      'A white void: the set designer\'s day off.'
+    ]
+  },
+  {
+    id: 'rugged-mountain',
+    label: 'Rugged Mountain',
+    category: 'settings',
+    aliases: ['mountain', 'mountains', 'rugged landscape', 'off road', 'offroad', 'wilderness', 'outdoors'],
+    responses: [
+      'Rugged mountain landscape. Masculinity and freedom signifiers.',
+      'Another truck on another mountain it will never actually see.'
+    ]
+  },
+  {
+    id: 'kitchen-decider',
+    label: 'Kitchen Setting',
+    category: 'settings',
+    aliases: ['kitchen', 'cooking', 'home kitchen', 'kitchen counter'],
+    responses: [
+      'Kitchen setting. Targeting the "household decision maker."',
+      'A kitchen nobody has ever cooked in.'
+    ]
+  },
+  {
+    id: 'white-coat',
+    label: 'White Coat Authority',
+    category: 'people',
+    aliases: ['doctor', 'scientist', 'lab coat', 'white coat', 'expert', 'dentist', 'medical professional'],
+    responses: [
+      'Person in white coat detected. Authority figure deployed.',
+      'The lab coat is doing most of the acting here.'
+    ]
+  },
+  {
+    id: 'celebrity-cameo',
+    label: 'Celebrity Cameo',
+    category: 'people',
+    aliases: ['celebrity', 'celebrity cameo', 'famous actor', 'celebrity endorsement', 'cameo'],
+    responses: [
+      'Celebrity spotted. Parasocial trust transfer in progress.',
+      'That paycheck had more zeros than this script had ideas.'
+    ]
+  },
+  {
+    id: 'nostalgia-bait',
+    label: 'Nostalgia Bait',
+    category: 'messaging',
+    aliases: ['nostalgia', 'retro', 'throwback', '80s', '90s', 'vintage'],
+    responses: [
+      'Nostalgia bait. Your childhood, now with a purchase button.',
+      'Remember the past? They\'d like to sell it back to you.'
+    ]
+  },
+  {
+    id: 'underdog-anthem',
+    label: 'Inspirational Anthem',
+    category: 'messaging',
+    aliases: ['inspirational', 'inspirational music', 'underdog', 'emotional music', 'motivational', 'uplifting music', 'anthem'],
+    responses: [
+      'Swelling strings. Your feelings are being billed hourly.',
+      'Inspirational anthem detected. The product is an afterthought.'
+    ]
+  },
+  {
+    id: 'talking-mascot',
+    label: 'Talking Mascot',
+    category: 'animals',
+    aliases: ['mascot', 'talking animal', 'cartoon character', 'animated character', 'cgi animal'],
+    responses: [
+      'A talking mascot. Somewhere, a focus group cheered.',
+      'CGI critter with a voice actor\'s mortgage riding on it.'
+    ]
+  },
+  {
+    id: 'product-hero-shot',
+    label: 'Product Hero Shot',
+    category: 'technique',
+    aliases: ['product shot', 'hero shot', 'product close up', 'product closeup', 'logo reveal'],
+    responses: [
+      'Hero shot. The product gets better lighting than the actors.',
+      'Close-up so glossy you can see the marketing budget.'
+    ]
+  },
+  {
+    id: 'cute-kids',
+    label: 'Adorable Kids',
+    category: 'people',
+    aliases: ['kids', 'children', 'cute kid', 'child', 'baby', 'babies'],
+    responses: [
+      'Deploying children. Critique is now socially awkward.',
+      'A kid said something wise. Focus-grouped to perfection.'
+    ]
+  },
+  {
+    id: 'fine-print',
+    label: 'Fine Print',
+    category: 'messaging',
+    aliases: ['fine print', 'disclaimer', 'small text', 'legal text', 'terms apply'],
+    responses: [
+      'Fine print at warp speed. Legal would like a word.',
+      'The important part is in 4-point font, naturally.'
+    ]
+  },
+  {
+    id: 'pro-athlete',
+    label: 'Pro Athlete',
+    category: 'people',
+    aliases: ['athlete', 'football player', 'nfl player', 'sports star', 'basketball player', 'quarterback'],
+    responses: [
+      'A pro athlete reading cue cards. Tackling dialogue, badly.',
+      'Sports hero endorsement. The contract was the real highlight.'
+    ]
+  },
+  {
+    id: 'empty-road',
+    label: 'Empty Road',
+    category: 'settings',
+    aliases: ['empty road', 'open road', 'winding road', 'car driving', 'desert highway', 'car on road', 'highway'],
+    responses: [
+      'An empty road. No traffic, no potholes, no reality.',
+      'Closed course, professional driver, imaginary freedom.'
+    ]
+  },
+  {
+    id: 'party-montage',
+    label: 'Party Montage',
+    category: 'technique',
+    aliases: ['party', 'montage', 'fast cuts', 'celebration', 'dancing', 'party scene', 'confetti'],
+    responses: [
+      'Party montage. Everyone\'s having fun, allegedly.',
+      'Quick-cut celebration so you don\'t notice the product.'
+    ]
+  },
+  {
+    id: 'diverse-friends',
+    label: 'Diverse Friend Group',
+    category: 'people',
+    aliases: ['diverse friends', 'friend group', 'group of friends', 'diverse cast', 'friends hanging out'],
+    responses: [
+      'A perfectly balanced friend group, assembled by a casting spreadsheet.',
+      'Friends this photogenic only exist in stock photo libraries.'
+    ]
+  },
+  {
+    id: 'small-town',
+    label: 'Small Town Americana',
+    category: 'settings',
+    aliases: ['small town', 'main street', 'americana', 'farm', 'diner', 'rural', 'heartland', 'barn'],
+    responses: [
+      'Small-town Americana. Brought to you by a multinational conglomerate.',
+      'A diner, a barn, a flag. Heartland bingo is live.'
+    ]
+  },
+  {
+    id: 'patriotic',
+    label: 'Patriotic Imagery',
+    category: 'messaging',
+    aliases: ['american flag', 'flag', 'patriotic', 'patriotism', 'fireworks', 'bald eagle', 'troops', 'veterans'],
+    responses: [
+      'Flag deployed. Buying this is now a civic duty.',
+      'Patriotism, available in three trim levels.'
+    ]
+  },
+  {
+    id: 'tech-magic',
+    label: 'Vague Tech Magic',
+    category: 'messaging',
+    aliases: ['technology', 'futuristic', 'hologram', 'ai', 'artificial intelligence', 'smartphone', 'app', 'robot', 'digital interface'],
+    responses: [
+      'Glowing holograms. Nobody knows what it does, including them.',
+      'Vague tech magic. Terms of service not shown.'
+    ]
+  },
+  {
+    id: 'food-closeup',
+    label: 'Food Glamour Shot',
+    category: 'technique',
+    aliases: ['food close up', 'cheese pull', 'burger', 'pizza', 'food porn', 'sizzling food', 'food', 'snacks', 'chips'],
+    responses: [
+      'Cheese pull engineered by a team of six and a glue gun.',
+      'That burger had a stylist. Yours will have a wrapper.'
+    ]
+  },
+  {
+    id: 'tearjerker',
+    label: 'Tearjerker',
+    category: 'messaging',
+    aliases: ['crying', 'tears', 'emotional', 'sad', 'emotional moment', 'reunion', 'hug', 'hugging'],
+    responses: [
+      'Manufactured tears. Please cry responsibly into the product.',
+      'They\'re reaching for your heartstrings and your wallet simultaneously.'
+    ]
+  },
+  {
+    id: 'clydesdales',
+    label: 'Majestic Horses',
+    category: 'animals',
+    aliases: ['horse', 'horses', 'clydesdale', 'clydesdales', 'horse running', 'stallion'],
+    responses: [
+      'Majestic horses. Super Bowl tradition, beer optional.',
+      'Slow-trotting Clydesdales. Feelings ETA: now.'
+    ]
+  }
+];
+
+const cleanTropeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s-]/g, '').replace(/[-\s]+/g, ' ').trim();
+
+// Crude singularization so "mountains" and "mountain" compare equal
+const stem = (text: string) => text.split(' ').map(w => (w.length > 3 && w.endsWith('s') ? w.slice(0, -1) : w)).join(' ');
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = temp;
+    }
+  }
+  return row[b.length];
+}
+
+// Similarity between a cleaned phrase and one alias, 0-1
+function aliasScore(phrase: string, alias: string): number {
+  if (phrase === alias) return 1;
+  const words = ` ${phrase} `;
+  if (words.includes(` ${alias} `)) return alias.includes(' ') ? 0.9 : 0.85;
+  // Edit distance only for typos on longer phrases; short words collide too easily
+  if (Math.min(phrase.length, alias.length) < 6) return 0;
+  const distance = editDistance(phrase, alias);
+  return 1 - distance / Math.max(phrase.length, alias.length);
+}
+
+// Map one model-supplied trope onto the catalog
+export function normalizeTrope(text: string, catalog: Trope[] = TROPE_CATALOG): NormalizedTrope | null {
+  const cleaned = cleanTropeText(text);
+  if (!cleaned) return null;
+  const phrase = stem(cleaned);
+
+  let best: { trope: Trope; score: number } | null = null;
+  for (const trope of catalog) {
+    for (const alias of [trope.label, ...trope.aliases]) {
+      const score = aliasScore(phrase, stem(cleanTropeText(alias)));
+      if (!best || score > best.score) best = { trope, score };
+    }
+  }
+
+  if (best && best.score >= TROPE_MATCH_THRESHOLD) {
+    return { key: best.trope.id, label: best.trope.label, trope: best.trope, confidence: best.score };
+  }
+  return { key: `free:${cleaned}`, label: cleaned, trope: null, confidence: 0 };
+}
+
+const TROPES_BY_ID = new Map(TROPE_CATALOG.map(t => [t.id, t]));
+
+// Display label for a count key
+export function tropeLabel(key: string): string {
+  return TROPES_BY_ID.get(key)?.label ?? key.replace(/^free:/, '');
+}
+
+// Normalize a frame's tropes, dropping duplicates within the frame
+export function normalizeTropes(texts: string[], catalog: Trope[] = TROPE_CATALOG): NormalizedTrope[] {
+  const seen = new Map<string, NormalizedTrope>();
+  for (const text of texts) {
+    if (typeof text !== 'string') continue;
+    const normalized = normalizeTrope(text, catalog);
+    if (!normalized) continue;
+    const existing = seen.get(normalized.key);
+    if (!existing || normalized.confidence > existing.confidence) seen.set(normalized.key, normalized);
+  }
+  return [...seen.values()];
+}
+
+// Add one frame's worth of tropes to a count map (each trope counts once per frame)
+export function countTropes(counts: Record<string, number>, tropes: NormalizedTrope[]): Record<string, number> {
+  const next = { ...counts };
+  for (const { key } of tropes) {
+    next[key] = (next[key] || 0) + 1;
+  }
+  return next;
+}
+
+// Next stock line for a trope, rotating so repeats across ads don't read identical
+export function stockLineFor(trope: Trope, timesUsed: number): string {
+  return trope.responses[timesUsed % trope.responses.length];
+}
@@ -0,0 +1,49 @@
+// Types shared across the app's modules
+
+export type Confidence = 'guessing' | 'suspicious' | 'certain';
+
+export interface CommentaryEntry {
+  id: string;
+  adId?: string; // the ad on screen when it was said (missing on lines saved before ads had ids)
+  timestamp: number;
+  text: string;
+  confidence?: Confidence;
+  theory?: string; // the model's theory as of this frame
+  brandGuess?: string; // its brand guess, when it had one
+}
+
+// One frame's analysis, as validated by the server
+export interface FrameAnalysis {
+  commentary: string;
+  theory: string;
+  brandGuess: string | null; // canonical name when it matched the lineup
+  brandId: string | null; // lineup brand id
+  confidence: Confidence;
+  tropesDetected: string[];
+  isNewAd: boolean;
+  adSummaryOneLiner: string;
+}
+
+// Judge's scores, 1-10 per axis
+export interface Scorecard {
+  originality: number; // higher is fresher
+  celebrityOveruse: number; // higher leans harder on a famous face
+  tropeDensity: number; // higher is more clichéd
+  whatWasItSelling: number; // higher is more baffling
+  overall: number; // higher is better
+  verdict: string;
+}
+
+export interface AdSession {
+  id: string;
+  brandGuess: string;
+  oneLiner: string;
+  commentaryLog: string[];
+  tropeCounts: Record<string, number>; // canonical trope id (or "free:<text>") -> frames seen
+  startTime: number;
+  endTime: number;
+  scorecard?: Scorecard; // filled in once the judge has weighed in
+  thumbnail?: string; // downscaled JPEG data URL of the ad's most telling frame
+  lineupAdId?: string; // which of tonight's expected ads this was
+  repeatAiring?: boolean; // that lineup ad had already aired
+}
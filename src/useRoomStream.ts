@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { roomStreamUrl, type RoomAd, type RoomBubble, type RoomStreamEvents, type VoteCounts } from './rooms';
+
+export interface FloatingReaction {
+  id: string;
+  emoji: string;
+  left: number; // % across the screen
+}
+
+export interface RoomStreamState {
+  connected: boolean;
+  closedReason: string | null;
+  bubbles: Array<RoomBubble & { receivedAt: number }>;
+  tropes: string[];
+  ads: RoomAd[];
+  isAnalyzing: boolean;
+  viewers: number;
+  votes: Record<string, VoteCounts>;
+  reactions: FloatingReaction[];
+  voterToken: string | null;
+}
+
+const INITIAL_STATE: RoomStreamState = {
+  connected: false,
+  closedReason: null,
+  bubbles: [],
+  tropes: [],
+  ads: [],
+  isAnalyzing: false,
+  viewers: 0,
+  votes: {},
+  reactions: [],
+  voterToken: null
+};
+
+// Match the main screen's bubble lifetime and cap
+const BUBBLE_LIFETIME_MS = 16000;
+const MAX_BUBBLES = 5;
+const REACTION_LIFETIME_MS = 2500;
+
+// Follow a room's live events. Hosts pass their token so the stream also
+// counts as their presence.
+export function useRoomStream(code: string | null, hostToken?: string): RoomStreamState {
+  const [state, setState] = useState<RoomStreamState>(INITIAL_STATE);
+
+  useEffect(() => {
+    if (!code) return;
+    setState(INITIAL_STATE);
+
+    const source = new EventSource(roomStreamUrl(code, hostToken));
+    const on = <K extends keyof RoomStreamEvents>(event: K, handle: (data: RoomStreamEvents[K]) => void) => {
+      source.addEventListener(event, e => handle(JSON.parse((e as MessageEvent).data)));
+    };
+
+    source.onopen = () => setState(prev => ({ ...prev, connected: true }));
+    source.onerror = () => {
+      // CLOSED means the server refused the stream (room gone); otherwise it's reconnecting
+      const closedReason = source.readyState === EventSource.CLOSED ? 'not-found' : null;
+      setState(prev => ({ ...prev, connected: false, closedReason: prev.closedReason || closedReason }));
+    };
+
+    // Sent on every (re)connect. Recent lines show up straight away; the first
+    // voter token is kept so votes cast before a reconnect still count as ours.
+    on('snapshot', data => setState(prev => ({
+      ...prev,
+      connected: true,
+      bubbles: data.bubbles.slice(-MAX_BUBBLES).map(bubble => ({ ...bubble, receivedAt: Date.now() })),
+      voterToken: prev.voterToken ?? data.voterToken,
+      tropes: data.tropes,
+      ads: data.ads,
+      isAnalyzing: data.isAnalyzing,
+      viewers: data.viewers,
+      votes: data.votes
+    })));
+    on('bubble', bubble => setState(prev => ({
+      ...prev,
+      bubbles: [...prev.bubbles, { ...bubble, receivedAt: Date.now() }].slice(-MAX_BUBBLES)
+    })));
+    on('tropes', ({ tropes }) => setState(prev => ({ ...prev, tropes })));
+    on('ads', ({ ads }) => setState(prev => ({ ...prev, ads })));
+    on('status', ({ isAnalyzing }) => setState(prev => ({ ...prev, isAnalyzing })));
+    on('presence', ({ viewers }) => setState(prev => ({ ...prev, viewers })));
+    on('votes', ({ lineId, up, down }) => setState(prev => ({ ...prev, votes: { ...prev.votes, [lineId]: { up, down } } })));
+    on('reaction', ({ emoji, at }) => {
+      const reaction = { id: `${at}-${Math.random()}`, emoji, left: 10 + Math.random() * 80 };
+      setState(prev => ({ ...prev, reactions: [...prev.reactions, reaction].slice(-30) }));
+      setTimeout(() => {
+        setState(prev => ({ ...prev, reactions: prev.reactions.filter(r => r.id !== reaction.id) }));
+      }, REACTION_LIFETIME_MS);
+    });
+    on('closed', ({ reason }) => {
+      source.close();
+      setState(prev => ({ ...prev, connected: false, closedReason: reason }));
+    });
+
+    // Expire old bubbles like the main screen does
+    const cleanup = setInterval(() => {
+      const now = Date.now();
+      setState(prev => {
+        const bubbles = prev.bubbles.filter(b => now - b.receivedAt < BUBBLE_LIFETIME_MS);
+        return bubbles.length === prev.bubbles.length ? prev : { ...prev, bubbles };
+      });
+    }, 1000);
+
+    return () => {
+      source.close();
+      clearInterval(cleanup);
+    };
+  }, [code, hostToken]);
+
+  return state;
+}